@@ -20,18 +20,36 @@ import lang_python from "npm:highlight.js/lib/languages/python";
 import lang_bash from "npm:highlight.js/lib/languages/bash";
 import lang_haskell from "npm:highlight.js/lib/languages/haskell";
 import lang_x86asm from "npm:highlight.js/lib/languages/x86asm";
+import lang_c from "npm:highlight.js/lib/languages/c";
+import lang_css from "npm:highlight.js/lib/languages/css";
+import lang_go from "npm:highlight.js/lib/languages/go";
+import lang_json from "npm:highlight.js/lib/languages/json";
+import lang_typescript from "npm:highlight.js/lib/languages/typescript";
+import lang_xml from "npm:highlight.js/lib/languages/xml";
 
-import { beautify } from "./plugins/beautify/mod.ts";
+import { format_html } from "./plugins/format_html/mod.ts";
+import { csp } from "./plugins/csp/mod.ts";
+import { sri } from "./plugins/sri/mod.ts";
 import { structured_data } from "./plugins/structured_data/mod.ts";
+import { breadcrumbs } from "./plugins/breadcrumbs/mod.ts";
+import { gist_demos } from "./plugins/gist_demos/mod.ts";
 import {
   dateModifiedField,
   modified_date,
 } from "./plugins/modified_date/mod.ts";
 
+import { logGitHubCacheStats } from "./src/_includes/github.ts";
+import { analyticsStandIn } from "./src/_includes/analytics.ts";
+
 import { JSX } from "npm:preact@10.25.4";
 
+const isDev = Deno.env.get("DEV") === "true";
+
 const site = lume({
   src: "./src",
+  server: {
+    middlewares: isDev ? [analyticsStandIn()] : [],
+  },
 })
   .add([
     ".wgsl",
@@ -50,7 +68,8 @@ const site = lume({
     extensions: [".ts", ".js"],
     options: {
       plugins: [],
-      bundle: false,
+      // Vendors remote imports (e.g. from esm.sh) into the output
+      bundle: true,
       format: "esm",
       minify: false,
       keepNames: true,
@@ -90,6 +109,7 @@ const site = lume({
   .use(readingInfo({
     wordsPerMinute: 100, // there's usually a lot of code in my posts
   }))
+  .use(breadcrumbs())
   .use(structured_data())
   .use(toc({
     anchor: linkInsideHeader(),
@@ -104,10 +124,24 @@ const site = lume({
         bash: lang_bash,
         haskell: lang_haskell,
         x86asm: lang_x86asm,
+        c: lang_c,
+        css: lang_css,
+        go: lang_go,
+        json: lang_json,
+        typescript: lang_typescript,
+        xml: lang_xml,
       },
     }),
   )
-  .use(beautify());
+  .use(gist_demos())
+  .use(sri({ strict: !isDev }))
+  .use(format_html({
+    mode: isDev ? "pretty" : "minify",
+  }))
+  .use(csp());
+
+site.addEventListener("afterBuild", logGitHubCacheStats);
+site.addEventListener("afterUpdate", logGitHubCacheStats);
 
 export default site;
 
@@ -0,0 +1,109 @@
+import { Page } from "lume/core/file.ts";
+import Site from "lume/core/site.ts";
+import { toArray } from "../utils.ts";
+
+declare global {
+  interface Breadcrumb {
+    name: string;
+    url: string;
+  }
+
+  namespace Lume {
+    interface Data {
+      /**
+       * The trail from the home page to this page (inclusive), for layouts.
+       */
+      breadcrumbs?: Breadcrumb[];
+
+      /**
+       * Overrides the ancestors derived from the URL structure.
+       * `false` disables breadcrumbs for the page.
+       */
+      breadcrumb_parents?: string[] | false;
+
+      /**
+       * The name of the page in breadcrumbs, when it should not be its title.
+       */
+      breadcrumb_title?: string;
+    }
+  }
+}
+
+export function breadcrumbs() {
+  return (site: Site) => {
+    // Derive breadcrumbs from the URL structure, e.g. `/gists/foo/` has the
+    // ancestors `/` and `/gists/`. URLs without a page are skipped.
+    site.preprocess("*", (pages) => {
+      const pagesByUrl = new Map(pages.map((page) => [page.data.url, page]));
+
+      for (const page of pages) {
+        const trail = getTrail(page, pagesByUrl);
+        if (trail.length < 2) {
+          continue;
+        }
+
+        page.data.breadcrumbs = trail;
+        page.data.structuredData = [
+          ...toArray(page.data.structuredData),
+          toStructuredData(trail),
+        ];
+      }
+    });
+  };
+}
+
+function getTrail(page: Page, pagesByUrl: Map<string, Page>): Breadcrumb[] {
+  const { url, breadcrumb_parents, is_redirect, type } = page.data;
+
+  // Gist demos are served as published
+  if (type === "gist-file") {
+    return [];
+  }
+
+  if (!isHTMLUrl(url) || breadcrumb_parents === false || is_redirect) {
+    return [];
+  }
+
+  const parents = (breadcrumb_parents ?? getAncestorUrls(url))
+    .map((parentUrl) => pagesByUrl.get(parentUrl))
+    .filter((parent) => parent !== undefined);
+
+  return [...parents, page].map((p) => ({
+    name: getName(p),
+    url: p.data.url,
+  }));
+}
+
+function getAncestorUrls(url: string): string[] {
+  const segments = url.split("/").filter(Boolean);
+  const urls = ["/"];
+  for (let i = 1; i < segments.length; i++) {
+    urls.push(`/${segments.slice(0, i).join("/")}/`);
+  }
+  return urls.filter((ancestor) => ancestor !== url);
+}
+
+function getName(page: Page): string {
+  const { breadcrumb_title, nav_title, title, url } = page.data;
+  return breadcrumb_title ?? nav_title ?? title ??
+    url.split("/").filter(Boolean).at(-1) ?? url;
+}
+
+function toStructuredData(trail: Breadcrumb[]): BreadcrumpListSD {
+  return {
+    "@type": "BreadcrumbList",
+    itemListElement: trail.map((crumb, i) => ({
+      "@type": "ListItem",
+      position: i + 1,
+      name: crumb.name,
+      item: `site-url:${crumb.url}`,
+    })),
+  };
+}
+
+function isHTMLUrl(url: unknown): url is string {
+  return typeof url === "string" &&
+    (url.endsWith("/") || url.endsWith(".html"));
+}
+
+export default breadcrumbs;
@@ -0,0 +1,125 @@
+import { Page } from "lume/core/file.ts";
+import Site from "lume/core/site.ts";
+import { log } from "lume/core/utils/log.ts";
+import { digestBase64, formatCSP, getExternalOrigin } from "../utils.ts";
+
+type PageDocument = NonNullable<Page["document"]>;
+
+/**
+ * Inline elements, and the CSP directive that allows them by hash.
+ * JSON-LD blocks are `<script>` elements too, so they are hashed along with scripts.
+ */
+const inlineElements = [
+  { selector: "script:not([src])", directive: "script-src" },
+  { selector: "style", directive: "style-src" },
+] as const;
+
+/**
+ * External elements whose origins are allowed when they are listed in
+ * `config.cspExternalOrigins`.
+ */
+const externalElements = [
+  { selector: "script[src]", attribute: "src", directive: "script-src" },
+  {
+    selector: "link[rel=stylesheet][href]",
+    attribute: "href",
+    directive: "style-src",
+  },
+] as const;
+
+export function csp() {
+  return (site: Site) => {
+    // Write each page's CSP from `config.csp` plus the hashes of its inline
+    // scripts and styles, and the external origins that it references.
+    // This must run after any other step that rewrites the HTML.
+    site.process([".html"], async (pages) => {
+      for (const page of pages) {
+        const { document } = page;
+        // Gist demos get their own policy
+        if (!document || page.data.type === "gist-file") {
+          continue;
+        }
+
+        const csp: Record<string, string[]> = Object.fromEntries(
+          Object.entries(page.data.config.csp)
+            .map(([key, values]) => [key, [...values]]),
+        );
+
+        for (const { selector, directive } of inlineElements) {
+          for (const element of document.querySelectorAll(selector)) {
+            allow(csp, directive, await hashSource(element.textContent ?? ""));
+          }
+        }
+
+        const { cspExternalOrigins } = page.data.config;
+        for (const { selector, attribute, directive } of externalElements) {
+          for (const element of document.querySelectorAll(selector)) {
+            const url = element.getAttribute(attribute)!;
+            const origin = getExternalOrigin(url);
+            const sources = csp[directive] ?? csp["default-src"];
+            if (!origin || isAllowed(sources, origin)) {
+              continue;
+            }
+            if (isAllowed(cspExternalOrigins[directive], origin)) {
+              allow(csp, directive, origin);
+            } else {
+              log.warn(
+                `[csp] <gray>${url}</gray> in ${page.data.url} is blocked: add its origin to config.cspExternalOrigins["${directive}"]`,
+              );
+            }
+          }
+        }
+
+        writeCSP(document, csp);
+      }
+    });
+  };
+}
+
+function allow(
+  csp: Record<string, string[]>,
+  directive: string,
+  source: string,
+) {
+  csp[directive] ??= [...(csp["default-src"] ?? [])];
+  csp[directive] = csp[directive].filter((value) => value !== "'none'");
+  if (!csp[directive].includes(source)) {
+    csp[directive].push(source);
+  }
+}
+
+/**
+ * Whether `origin` matches one of the host sources, e.g. `https://*.example.com`.
+ */
+function isAllowed(sources: readonly string[] | undefined, origin: string) {
+  const { protocol, host } = new URL(origin);
+  return (sources ?? []).some((source) => {
+    const wildcard = source.match(/^(https?:)\/\/\*\.(.+)$/);
+    return source === origin ||
+      (wildcard !== null && wildcard[1] === protocol &&
+        host.endsWith(`.${wildcard[2]}`));
+  });
+}
+
+async function hashSource(source: string): Promise<string> {
+  return `'sha256-${await digestBase64("SHA-256", source)}'`;
+}
+
+function writeCSP(document: PageDocument, csp: Record<string, string[]>) {
+  document.head
+    .querySelector('meta[http-equiv="Content-Security-Policy"]')
+    ?.remove();
+
+  const meta = document.createElement("meta");
+  meta.setAttribute("http-equiv", "Content-Security-Policy");
+  meta.setAttribute("content", formatCSP(csp));
+
+  const charset = document.head.querySelector("meta[charset]");
+  if (charset) {
+    charset.after(meta);
+  } else {
+    document.head.prepend(meta);
+  }
+}
+
+export default csp;
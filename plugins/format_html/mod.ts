@@ -0,0 +1,67 @@
+import { Page } from "lume/core/file.ts";
+import Site from "lume/core/site.ts";
+
+import libbeautify from "npm:js-beautify@1.15.1";
+import { minify as libminify } from "npm:html-minifier-terser@7.2.0";
+
+export type Mode = "pretty" | "minify" | "off";
+
+export interface Options {
+  /**
+   * - `pretty`: indented, readable HTML
+   * - `minify`: collapsed whitespace, minified inline CSS and JSON-LD
+   * - `off`: leave the output as rendered
+   */
+  mode?: Mode;
+}
+
+export function format_html({ mode = "pretty" }: Options = {}) {
+  return (site: Site) => {
+    if (mode === "off") {
+      return;
+    }
+
+    site.process([".html"], async (pages) => {
+      for (const page of pages) {
+        // Gist demos are served as published
+        if (page.data.type === "gist-file") {
+          continue;
+        }
+
+        switch (mode) {
+          case "pretty":
+            page.content = libbeautify.html(page.content as string, {
+              indent_size: 2,
+              wrap_line_length: 120,
+            });
+            break;
+          case "minify":
+            minifyJSONLD(page);
+            page.content = await libminify(page.content as string, {
+              collapseWhitespace: true,
+              // Custom elements (e.g. `<relative-time>`) and inline `<svg>`
+              // badges count as block boundaries, so plain collapsing would
+              // drop the spaces around them; keep one instead
+              conservativeCollapse: true,
+              removeComments: true,
+              minifyCSS: true,
+              // Rewriting inline scripts would invalidate their CSP hashes
+              minifyJS: false,
+            });
+            break;
+        }
+      }
+    });
+  };
+}
+
+function minifyJSONLD(page: Page) {
+  const scripts = page.document?.querySelectorAll(
+    'script[type="application/ld+json"]',
+  ) ?? [];
+  for (const script of scripts) {
+    script.textContent = JSON.stringify(JSON.parse(script.textContent ?? ""));
+  }
+}
+
+export default format_html;
@@ -0,0 +1,136 @@
+import { Page } from "lume/core/file.ts";
+import Site from "lume/core/site.ts";
+import { formatCSP, getExternalOrigin } from "../utils.ts";
+
+type PageDocument = NonNullable<Page["document"]>;
+
+/**
+ * Elements that load external resources, and the CSP directive that governs them.
+ */
+const externalResources = [
+  { selector: "script[src]", attribute: "src", directive: "script-src" },
+  {
+    selector: "link[rel=stylesheet][href]",
+    attribute: "href",
+    directive: "style-src",
+  },
+  { selector: "img[src]", attribute: "src", directive: "img-src" },
+  {
+    selector: "video[src], audio[src], source[src]",
+    attribute: "src",
+    directive: "media-src",
+  },
+] as const;
+
+const urlAttributes = ["src", "href", "poster", "data"];
+
+export function gist_demos() {
+  return (site: Site) => {
+    // Make HTML gist demos self-contained and lock them down
+    site.process([".html"], (pages) => {
+      for (const page of pages) {
+        const { document } = page;
+        if (
+          !document || page.data.type !== "gist-file" ||
+          !page.data.is_displayable
+        ) {
+          continue;
+        }
+
+        const data = page.data as Lume.Data & GistFileData;
+
+        const siblings = new Map(
+          site.search.pages<GistFileData>(
+            `type=gist-file gist_id=${data.gist_id}`,
+          ).map((file) => [file.name, file.url]),
+        );
+
+        rewriteSiblingReferences(document, data.gist_id, siblings);
+
+        if (data.demo_policy) {
+          injectCSP(document, data.demo_policy.csp);
+        }
+      }
+    });
+  };
+}
+
+/**
+ * Replaces raw GitHub URLs of files in the same gist with their local URLs.
+ * E.g. `https://gist.githubusercontent.com/<user>/<gist id>/raw/<sha>/main.js`
+ */
+function rewriteSiblingReferences(
+  document: PageDocument,
+  gistId: string,
+  siblings: Map<string, string>,
+) {
+  const pattern = new RegExp(
+    String
+      .raw`https?://(?:gist\.githubusercontent\.com|raw\.githubusercontent\.com/gist|gist\.github\.com)/[^/\s"'()]+/${gistId}/raw/(?:[0-9a-f]{40}/)?([^/?#\s"'()]+)`,
+    "g",
+  );
+
+  const rewrite = (text: string) =>
+    text.replaceAll(
+      pattern,
+      (match, name: string) => siblings.get(decodeURIComponent(name)) ?? match,
+    );
+
+  for (const attribute of urlAttributes) {
+    document.querySelectorAll(`[${attribute}]`).forEach((element) => {
+      const value = element.getAttribute(attribute)!;
+      const rewritten = rewrite(value);
+      if (rewritten !== value) {
+        element.setAttribute(attribute, rewritten);
+      }
+    });
+  }
+
+  document.querySelectorAll("script:not([src]), style").forEach((element) => {
+    const text = element.textContent ?? "";
+    const rewritten = rewrite(text);
+    if (rewritten !== text) {
+      element.textContent = rewritten;
+    }
+  });
+}
+
+/**
+ * The origins of external resources that the demo loads are allowed automatically.
+ *
+ * The iframe `sandbox` only applies inside the gist page. A demo opened directly
+ * at its own URL is restricted by this CSP alone: `sandbox` is ignored in a
+ * `<meta>` policy, and the site can't send CSP headers.
+ */
+function injectCSP(document: PageDocument, policy: Record<string, string[]>) {
+  const csp = Object.fromEntries(
+    Object.entries(policy).map(([key, values]) => [key, [...values]]),
+  );
+
+  for (const { selector, attribute, directive } of externalResources) {
+    document.querySelectorAll(selector).forEach((element) => {
+      const origin = getExternalOrigin(element.getAttribute(attribute)!);
+      if (origin) {
+        csp[directive] ??= [...(csp["default-src"] ?? [])];
+        if (!csp[directive].includes(origin)) {
+          csp[directive].push(origin);
+        }
+      }
+    });
+  }
+
+  const meta = document.createElement("meta");
+  meta.setAttribute("http-equiv", "Content-Security-Policy");
+  meta.setAttribute("content", formatCSP(csp));
+
+  // The charset must stay first, so that the rest of the document is decoded
+  // correctly
+  const charset = document.head.querySelector("meta[charset]");
+  if (charset) {
+    charset.after(meta);
+  } else {
+    document.head.prepend(meta);
+  }
+}
+
+export default gist_demos;
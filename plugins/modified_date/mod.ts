@@ -1,31 +1,199 @@
 import Site from "lume/core/site.ts";
-import { getGitDate } from "lume/core/utils/date.ts";
 
 export const dateModifiedField = "dateModified";
 
+export const revisionsField = "revisions";
+
+export const significantUpdateField = "significant_update";
+
 declare global {
   namespace Lume {
     interface Data {
       [dateModifiedField]?: Date;
+      [revisionsField]?: Revision[];
+      /**
+       * Overrides the date of the last significant commit.
+       */
+      [significantUpdateField]?: Date;
     }
   }
+
+  interface Revision {
+    hash: string;
+    date: Date;
+    subject: string;
+    /**
+     * Trivial revisions don't bump `dateModified`.
+     */
+    trivial: boolean;
+  }
+}
+
+export interface Options {
+  /**
+   * Commits whose message contains this marker are trivial.
+   */
+  trivialMarker?: string;
+
+  /**
+   * A file listing trivial commits, one hash per line, in the format used by
+   * `git blame --ignore-revs-file`.
+   */
+  ignoreRevsFile?: string;
+
+  /**
+   * Treat commits that only change whitespace or front matter as trivial.
+   */
+  ignoreFormatting?: boolean;
 }
 
-export function modified_date() {
+export function modified_date(
+  {
+    trivialMarker = "[trivial]",
+    ignoreRevsFile = ".git-blame-ignore-revs",
+    ignoreFormatting = true,
+  }: Options = {},
+) {
   return (site: Site) => {
     site.preprocess("*", (pages) => {
+      const ignoredRevs = readIgnoreRevsFile(site.root(ignoreRevsFile));
+
+      const isTrivial = (commit: Commit) =>
+        commit.subject.includes(trivialMarker) ||
+        ignoredRevs.some((rev) => commit.hash.startsWith(rev)) ||
+        (ignoreFormatting && !commit.merge && commit.patch !== undefined &&
+          isFormattingOnly(commit.patch));
+
+      // Generated pages share the entry of their generator
+      const cache = new Map<string, Revision[]>();
+
       for (const page of pages) {
-        if (!page.data[dateModifiedField] && page.src.entry) {
-          const modified = getGitDate("modified", page.src.entry.src);
-          if (modified) {
-            page.data[dateModifiedField] = modified;
-          } else {
-            page.data[dateModifiedField] = page.data.date;
-          }
+        if (!page.src.entry) {
+          continue;
+        }
+
+        const file = page.src.entry.src;
+        if (!cache.has(file)) {
+          const commits = getGitCommits(file, ignoreFormatting);
+          cache.set(
+            file,
+            commits.map((commit) => ({
+              hash: commit.hash,
+              date: commit.date,
+              subject: commit.subject,
+              trivial: isTrivial(commit),
+            })),
+          );
+        }
+
+        const revisions = cache.get(file)!;
+        page.data[revisionsField] = revisions;
+
+        if (!page.data[dateModifiedField]) {
+          page.data[dateModifiedField] = page.data[significantUpdateField] ??
+            revisions.find((revision) => !revision.trivial)?.date ??
+            page.data.date;
         }
       }
     });
   };
 }
 
+interface Commit {
+  hash: string;
+  date: Date;
+  subject: string;
+  /**
+   * Merge commits have no diff of their own.
+   */
+  merge: boolean;
+  /**
+   * The diff of the file, ignoring whitespace, with the whole file as context.
+   */
+  patch?: string[];
+}
+
+/**
+ * The commits that touched `file`, newest first, following renames.
+ */
+function getGitCommits(file: string, withPatch: boolean): Commit[] {
+  const args = ["log", "--follow", "--format=%x00%H%x09%aI%x09%P%x09%s"];
+  if (withPatch) {
+    args.push("--patch", "--ignore-all-space", "--unified=100000");
+  }
+
+  const { stdout, success } = new Deno.Command("git", {
+    args: [...args, "--", file],
+    stdout: "piped",
+    stderr: "null",
+  }).outputSync();
+
+  if (!success) {
+    return [];
+  }
+
+  return new TextDecoder()
+    .decode(stdout)
+    .split("\0")
+    .filter((record) => record !== "")
+    .map((record) => {
+      const [header, ...lines] = record.split("\n");
+      const [hash, date, parents, ...subject] = header.split("\t");
+      return {
+        hash,
+        date: new Date(date),
+        subject: subject.join("\t"),
+        merge: parents.includes(" "),
+        patch: withPatch ? lines : undefined,
+      };
+    });
+}
+
+/**
+ * Whether the only changes in `patch` are inside the front matter.
+ * Whitespace-only changes leave no diff at all.
+ * A diff without hunks (e.g. a rename) is not a formatting change.
+ */
+function isFormattingOnly(patch: string[]): boolean {
+  if (!patch.some((line) => line.startsWith("diff --git"))) {
+    return true;
+  }
+
+  const hunkStart = patch.findIndex((line) => line.startsWith("@@"));
+  if (hunkStart === -1) {
+    return false;
+  }
+
+  // With the whole file as context, the hunk is the file itself
+  const body = patch.slice(hunkStart + 1)
+    .filter((line) => !line.startsWith("\\")); // "\ No newline at end of file"
+
+  let frontMatterEnd = -1;
+  if (body[0]?.slice(1) === "---") {
+    frontMatterEnd = body.findIndex((line, i) =>
+      i > 0 && line.slice(1) === "---"
+    );
+  }
+
+  return body.every((line, i) =>
+    i <= frontMatterEnd || !(line.startsWith("+") || line.startsWith("-"))
+  );
+}
+
+function readIgnoreRevsFile(path: string): string[] {
+  let content;
+  try {
+    content = Deno.readTextFileSync(path);
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return [];
+    }
+    throw error;
+  }
+
+  return content.split("\n")
+    .map((line) => line.replace(/#.*/, "").trim())
+    .filter((line) => line !== "");
+}
+
 export default modified_date;
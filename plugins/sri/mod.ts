@@ -0,0 +1,89 @@
+import Site from "lume/core/site.ts";
+import { log } from "lume/core/utils/log.ts";
+import { digestBase64 } from "../utils.ts";
+
+/**
+ * Scripts whose content changes over time (e.g. analytics loaders) can opt out
+ * with this attribute.
+ */
+const optOutAttribute = "data-no-integrity";
+
+const algorithm = { name: "SHA-384", prefix: "sha384" } as const;
+
+export interface Options {
+  /**
+   * Fail the build when a script can't be fetched, instead of shipping it
+   * without `integrity`.
+   */
+  strict?: boolean;
+}
+
+export function sri({ strict = false }: Options = {}) {
+  return (site: Site) => {
+    // Shared between rebuilds, so `lume -s` only fetches each script once
+    const integrities = new Map<string, Promise<string>>();
+
+    const getIntegrity = async (url: string) => {
+      if (!integrities.has(url)) {
+        integrities.set(url, computeIntegrity(url));
+      }
+      try {
+        return await integrities.get(url)!;
+      } catch (error) {
+        integrities.delete(url); // retry on the next build
+        const message = `Could not compute the integrity of ${url}: ${error}`;
+        if (strict) {
+          throw new Error(`[sri] ${message}`, { cause: error });
+        }
+        log.warn(`[sri] ${message}`);
+        return null;
+      }
+    };
+
+    // Add `integrity` to external scripts
+    site.process([".html"], async (pages) => {
+      for (const page of pages) {
+        const { document } = page;
+        if (!document || page.data.type === "gist-file") {
+          continue;
+        }
+
+        for (const script of document.querySelectorAll("script[src]")) {
+          if (script.hasAttribute(optOutAttribute)) {
+            script.removeAttribute(optOutAttribute);
+            continue;
+          }
+
+          const src = script.getAttribute("src")!;
+          if (!isExternal(src) || script.hasAttribute("integrity")) {
+            continue;
+          }
+
+          const integrity = await getIntegrity(src);
+          if (integrity) {
+            script.setAttribute("integrity", integrity);
+            script.setAttribute("crossorigin", "anonymous");
+          }
+        }
+      }
+    });
+  };
+}
+
+async function computeIntegrity(url: string): Promise<string> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`${response.status} ${response.statusText}`);
+  }
+  const digest = await digestBase64(
+    algorithm.name,
+    await response.arrayBuffer(),
+  );
+  return `${algorithm.prefix}-${digest}`;
+}
+
+function isExternal(src: string): boolean {
+  return src.startsWith("https://") || src.startsWith("http://");
+}
+
+export default sri;
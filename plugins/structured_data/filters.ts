@@ -0,0 +1,223 @@
+import { Page } from "lume/core/file.ts";
+import Site from "lume/core/site.ts";
+
+export type FilterArg = string | number | boolean | null;
+
+export interface FilterContext {
+  site: Site;
+  page: Page;
+}
+
+/**
+ * Applied to `lume-data:` references, e.g. `lume-data:description | truncate(160)`.
+ * A filter receives `undefined` when the referenced value is missing.
+ */
+export type Filter = (
+  this: FilterContext,
+  value: unknown,
+  ...args: FilterArg[]
+) => unknown;
+
+export interface FilterCall {
+  name: string;
+  args: FilterArg[];
+}
+
+export const builtinFilters: Record<string, Filter> = {
+  /**
+   * A number of minutes as an ISO 8601 duration: `5` -> `PT5M`
+   */
+  iso8601minutes(value) {
+    if (typeof value !== "number") {
+      throw new Error(
+        `Expected a number to format as ISO 8601 minutes, but got: ${value}`,
+      );
+    }
+    return `PT${value}M`;
+  },
+
+  /**
+   * `date("iso")` (default), `date("day")` or `date("utc")`
+   */
+  date(value, format = "iso") {
+    const date = toDate(value);
+    switch (format) {
+      case "iso":
+        return date.toISOString();
+      case "day":
+        return date.toISOString().slice(0, 10);
+      case "utc":
+        return date.toUTCString();
+      default:
+        throw new Error(`Unknown date format: ${format}`);
+    }
+  },
+
+  /**
+   * A site path as an absolute URL: `/about/` -> `https://example.com/about/`
+   */
+  url(value) {
+    if (typeof value !== "string") {
+      throw new Error(`Expected a path to make absolute, but got: ${value}`);
+    }
+    return this.site.url(value, true);
+  },
+
+  default(value, fallback = null) {
+    return value === undefined || value === null || value === ""
+      ? fallback
+      : value;
+  },
+
+  join(value, separator = ", ") {
+    if (!Array.isArray(value)) {
+      throw new Error(`Expected a list to join, but got: ${value}`);
+    }
+    return value.join(String(separator));
+  },
+
+  split(value, separator = ",") {
+    if (typeof value !== "string") {
+      throw new Error(`Expected text to split, but got: ${value}`);
+    }
+    return value.split(String(separator)).map((s) => s.trim()).filter(Boolean);
+  },
+
+  /**
+   * Shortens text to at most `length` characters, cutting at a word boundary.
+   */
+  truncate(value, length = 160, ellipsis = "…") {
+    if (typeof value !== "string") {
+      throw new Error(`Expected text to truncate, but got: ${value}`);
+    }
+    const max = Number(length);
+    if (value.length <= max) {
+      return value;
+    }
+    const suffix = String(ellipsis);
+    const cut = value.slice(0, max - suffix.length);
+    const boundary = cut.lastIndexOf(" ");
+    return (boundary > 0 ? cut.slice(0, boundary) : cut).trimEnd() + suffix;
+  },
+
+  /**
+   * Coerces to a number, optionally rounded to `decimals` digits.
+   */
+  number(value, decimals = null) {
+    const number = Number(value);
+    if (value === null || value === "" || isNaN(number)) {
+      throw new Error(`Expected a number, but got: ${value}`);
+    }
+    if (decimals === null) {
+      return number;
+    }
+    const factor = 10 ** Number(decimals);
+    return Math.round(number * factor) / factor;
+  },
+};
+
+/**
+ * Splits `input | filter(a, b) | other` at the pipes that are not quoted.
+ */
+export function splitPipeline(ref: string): string[] {
+  return splitUnquoted(ref, "|");
+}
+
+/**
+ * Splits `a ?? b ?? "c"` at the separators that are not quoted.
+ */
+export function splitFallbacks(input: string): string[] {
+  return splitUnquoted(input, "??");
+}
+
+function splitUnquoted(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  let quote: string | null = null;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (text.startsWith(separator, i)) {
+      parts.push(current.trim());
+      current = "";
+      i += separator.length - 1;
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current.trim());
+
+  return parts;
+}
+
+/**
+ * Parses `name` or `name(arg, ...)`. Arguments are numbers, booleans, `null`, or
+ * single or double quoted strings.
+ */
+export function parseFilterCall(call: string): FilterCall {
+  const match = call.match(/^([\w-]+)\s*(?:\((.*)\))?$/s);
+  if (!match) {
+    throw new Error(`Invalid filter: ${call}`);
+  }
+  const [, name, args] = match;
+  return { name, args: args === undefined ? [] : parseFilterArgs(args) };
+}
+
+const argPattern =
+  /\s*("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|[^,\s]+)\s*(?:,|$)/gy;
+
+function parseFilterArgs(input: string): FilterArg[] {
+  if (input.trim() === "") {
+    return [];
+  }
+
+  const args: FilterArg[] = [];
+  argPattern.lastIndex = 0;
+
+  while (argPattern.lastIndex < input.length) {
+    const match = argPattern.exec(input);
+    if (!match) {
+      throw new Error(`Invalid filter arguments: ${input}`);
+    }
+    args.push(parseLiteral(match[1]));
+  }
+
+  return args;
+}
+
+/**
+ * A number, boolean, `null`, or a single or double quoted string.
+ */
+export function parseLiteral(token: string): FilterArg {
+  const json = token.startsWith("'")
+    ? `"${token.slice(1, -1).replaceAll('"', '\\"')}"`
+    : token;
+
+  let value;
+  try {
+    value = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Invalid literal: ${token}`, { cause: error });
+  }
+
+  if (typeof value === "object" && value !== null) {
+    throw new Error(`Invalid literal: ${token}`);
+  }
+  return value;
+}
+
+function toDate(value: unknown): Date {
+  const date = value instanceof Date
+    ? value
+    : new Date(value as string | number);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Expected a date, but got: ${value}`);
+  }
+  return date;
+}
@@ -1,5 +1,18 @@
 import { Page } from "lume/core/file.ts";
 import Site from "lume/core/site.ts";
+import { log } from "lume/core/utils/log.ts";
+import { Issue, validateStructuredData } from "./schemas.ts";
+import {
+  builtinFilters,
+  Filter,
+  parseFilterCall,
+  parseLiteral,
+  splitFallbacks,
+  splitPipeline,
+} from "./filters.ts";
+import { toArray } from "../utils.ts";
+
+export type { Filter, FilterArg, FilterContext } from "./filters.ts";
 
 const prefixWebsiteURL = "site-url:" as const;
 
@@ -30,6 +43,11 @@ declare global {
 
   type Val<T> = T | LumeDataRef;
 
+  /**
+   * A reference to a node elsewhere in the page's graph.
+   */
+  type NodeRef = { "@id": string };
+
   type StructuredData =
     | WebSiteSD
     | BlogPostingSD
@@ -45,7 +63,7 @@ declare global {
     url: SomeURL;
     name: Val<string>;
     description: Val<string>;
-    author?: Val<PersonSD>;
+    author?: Val<PersonSD> | NodeRef;
   }
 
   interface ArticleSD extends BaseSD {
@@ -53,10 +71,12 @@ declare global {
     mainEntityOfPage: SomeURL;
     url: SomeURL;
     headline: Val<string>;
-    author: Val<PersonSD>;
+    author: Val<PersonSD> | NodeRef;
     datePublished?: Val<string>;
     dateModified?: Val<string>;
     image?: Val<string> | Val<string[]>;
+    description?: Val<string>;
+    keywords?: Val<string[]>;
   }
 
   interface BlogPostingSD extends BaseSD {
@@ -64,7 +84,7 @@ declare global {
     mainEntityOfPage: SomeURL;
     url: SomeURL;
     headline: Val<string>;
-    author: Val<PersonSD>;
+    author: Val<PersonSD> | NodeRef;
     datePublished?: Val<string>;
     dateModified?: Val<string>;
     image?: Val<string> | Val<string[]>;
@@ -72,6 +92,29 @@ declare global {
     timeRequired?: Val<string>; // ISO 8601 duration
     wordCount?: Val<number>;
     keywords?: Val<string[]>;
+    isPartOf?: NodeRef;
+  }
+
+  interface SoftwareSourceCodeSD extends BaseSD {
+    "@type": "SoftwareSourceCode";
+    name: Val<string>;
+    url: SomeURL | string;
+    codeRepository: string;
+    author: Val<PersonSD> | NodeRef;
+    description?: Val<string>;
+    programmingLanguage?: Val<string> | Val<string[]>;
+    dateCreated?: Val<string>;
+    dateModified?: Val<string>;
+    license?: string;
+    keywords?: Val<string[]>;
+    image?: Val<string> | Val<string[]>;
+    targetProduct?: SoftwareApplicationSD;
+  }
+
+  interface SoftwareApplicationSD extends BaseSD {
+    "@type": "SoftwareApplication";
+    name: Val<string>;
+    url: string;
   }
 
   interface PersonSD extends BaseSD {
@@ -79,6 +122,16 @@ declare global {
     name: Val<string>;
     url: SomeURL;
     alternateName?: Val<string>;
+    description?: Val<string>;
+    image?: SomeURL;
+    sameAs?: string[];
+  }
+
+  interface ProfilePageSD extends BaseSD {
+    "@type": "ProfilePage";
+    mainEntity: Val<PersonSD>;
+    dateCreated?: Val<string>;
+    dateModified?: Val<string>;
   }
 
   interface BreadcrumpListSD extends BaseSD {
@@ -97,29 +150,75 @@ declare global {
   }
 }
 
-export function structured_data() {
-  return (site: Site) => {
-    // Resolve custom references in structured data
-    site.preprocess("*", (pages) => {
-      for (const page of pages) {
-        if (page.data.structuredData) {
-          page.data.structuredData = formatValue(
-            page,
-            page.data.structuredData,
-          );
-        }
-      }
-    });
+export interface Options {
+  /**
+   * Fail the build when structured data has errors, instead of logging them.
+   */
+  strict?: boolean;
+
+  /**
+   * Additional filters for `lume-data:` references, by name.
+   */
+  filters?: Record<string, Filter>;
+}
+
+export function structured_data(
+  { strict = false, filters: customFilters = {} }: Options = {},
+) {
+  const filters = { ...builtinFilters, ...customFilters };
 
-    // Insert structured data into the HTML document
+  return (site: Site) => {
+    // Resolve references, merge the nodes into a single graph, validate it,
+    // and insert it into the HTML document.
+    // This runs after rendering, so that layouts can contribute nodes too.
     site.process([".html"], (pages) => {
+      const failed: string[] = [];
+
+      // Nodes with an `@id` appear on many pages; warn about each one once
+      const reportedWarnings = new Set<string>();
+
       for (const page of pages) {
-        if (!page.document || !page.data.structuredData) {
+        // Gist demos are served as published
+        if (
+          !page.document || !page.data.structuredData ||
+          page.data.type === "gist-file"
+        ) {
           continue;
         }
+
+        const graph = buildGraph(
+          toArray(formatValue(page, page.data.structuredData)),
+        );
+
+        const issues = graph.flatMap((node) =>
+          validateStructuredData(node, getNodeLabel(node))
+            .filter((issue) => {
+              if (issue.severity !== "warning" || node["@id"] === undefined) {
+                return true;
+              }
+              const key = `${issue.path}: ${issue.message}`;
+              const isNew = !reportedWarnings.has(key);
+              reportedWarnings.add(key);
+              return isNew;
+            })
+        );
+        const errors = issues.filter((i) => i.severity === "error");
+        const warnings = issues.filter((i) => i.severity === "warning");
+
+        if (warnings.length > 0) {
+          log.warn(formatIssues(page, "warnings", warnings));
+        }
+        if (errors.length > 0) {
+          if (strict) {
+            failed.push(formatIssues(page, "errors", errors));
+          } else {
+            log.error(formatIssues(page, "errors", errors));
+          }
+        }
+
         const s = page.document.createElement("script");
         s.setAttribute("type", "application/ld+json");
-        s.innerHTML = renderStructuredData(page.data.structuredData);
+        s.innerHTML = renderStructuredData(graph);
 
         const title = page.document.head.querySelector("title");
         if (title) {
@@ -128,6 +227,14 @@ export function structured_data() {
           page.document.head.append(s);
         }
       }
+
+      if (failed.length > 0) {
+        throw new Error(
+          `Invalid structured data in ${failed.length} pages:\n${
+            failed.join("\n")
+          }`,
+        );
+      }
     });
 
     function formatValue(page: Page, value: unknown): unknown {
@@ -144,6 +251,8 @@ export function structured_data() {
     function formatString(page: Page, value: string): unknown {
       if (value === selfURL) {
         return formatSelfURL(page);
+      } else if (value.startsWith(`${selfURL}#`)) {
+        return formatSelfURL(page, value.slice(selfURL.length));
       } else if (isSiteURL(value)) {
         return formatSiteURL(value);
       } else if (isLumeDataRef(value)) {
@@ -153,46 +262,96 @@ export function structured_data() {
       }
     }
 
-    function formatSelfURL(page: Page): string {
-      return site.url(page.data.url, true);
+    function formatSelfURL(page: Page, fragment = ""): string {
+      return site.url(page.data.url, true) + fragment;
     }
 
     function formatSiteURL(url: SiteURL): string {
       return site.url(url.slice(prefixWebsiteURL.length), true);
     }
 
+    /**
+     * - `lume-data:a.b`: the value at `a.b`; it must exist
+     * - `lume-data:a.b?`: the property is dropped when the value is missing
+     *   (filters are not applied)
+     * - `lume-data:a ?? b ?? "text"`: the first value that exists
+     * - `lume-data:a | filter(arg)`: the value passed through filters
+     */
     function formatLumeDataRef(page: Page, ref: LumeDataRef): unknown {
-      const parts = ref.split("|").map((s) => s.trim());
-      const input = parts.shift() as LumeDataRef;
-      const keys = input.slice(prefixLumeDataRef.length).split(".");
-      const value = extract(page.data, keys);
-      return formatValue(page, applyFilters(value, parts)); // RECURSION
+      let value;
+      try {
+        value = resolveLumeDataRef(page, ref);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(
+          `[structured_data] Cannot resolve ${ref} in ${page.data.url}: ${message}`,
+          { cause: error },
+        );
+      }
+
+      return value === undefined ? undefined : formatValue(page, value); // RECURSION
     }
 
-    function applyFilters(value: unknown, filters: string[]): unknown {
-      let result = value;
-      for (const filter of filters) {
-        result = applyFilter(result, filter);
+    function resolveLumeDataRef(page: Page, ref: LumeDataRef): unknown {
+      const [input, ...calls] = splitPipeline(
+        ref.slice(prefixLumeDataRef.length),
+      );
+
+      const alternatives = splitFallbacks(input);
+      const optional = alternatives.at(-1)!.endsWith("?");
+      if (optional) {
+        alternatives.push(alternatives.pop()!.slice(0, -1).trimEnd());
       }
-      return result;
+
+      let value: unknown;
+      for (const alternative of alternatives) {
+        value = resolveAlternative(page, alternative);
+        if (value !== undefined && value !== null) {
+          break;
+        }
+      }
+
+      if (optional && (value === undefined || value === null)) {
+        return undefined;
+      }
+
+      // Filters may provide a value for a missing reference (e.g. `default`)
+      if (calls.length > 0) {
+        value = applyFilters(page, value, calls);
+      }
+
+      if (value === undefined || value === null) {
+        if (optional) {
+          return undefined;
+        }
+        throw new Error("Value not found");
+      }
+
+      return value;
     }
 
-    function applyFilter(value: unknown, filter: string): unknown {
-      switch (filter) {
-        case "iso8601minutes":
-          return formatISO8601Minutes(value);
-        default:
-          throw new Error(`Unknown filter: ${filter}`);
+    function resolveAlternative(page: Page, alternative: string): unknown {
+      if (alternative.startsWith('"') || alternative.startsWith("'")) {
+        return parseLiteral(alternative);
       }
+      return extract(page.data, alternative.split("."));
     }
 
-    function formatISO8601Minutes(value: unknown): string {
-      if (typeof value !== "number") {
-        throw new Error(
-          `Expected a number to format as ISO 8601 minutes, but got: ${value}`,
-        );
+    function applyFilters(
+      page: Page,
+      value: unknown,
+      calls: string[],
+    ): unknown {
+      let result = value;
+      for (const call of calls) {
+        const { name, args } = parseFilterCall(call);
+        const filter = filters[name];
+        if (!filter) {
+          throw new Error(`Unknown filter: ${name}`);
+        }
+        result = filter.call({ site, page }, result, ...args);
       }
-      return `PT${value}M`;
+      return result;
     }
 
     function formatObject(page: Page, value: object | null): unknown {
@@ -216,9 +375,11 @@ export function structured_data() {
       page: Page,
       data: unknown[],
     ): unknown[] {
-      return data.map((item) => {
-        return formatValue(page, item); // RECURSION
-      });
+      return data
+        .map((item) => {
+          return formatValue(page, item); // RECURSION
+        })
+        .filter((item) => !isEmpty(item));
     }
 
     function walkObject<T extends Record<string, unknown>>(
@@ -226,49 +387,146 @@ export function structured_data() {
       data: T,
     ): T {
       return Object.fromEntries(
-        Object.entries(data).map(([key, value]) => {
-          return [key, formatValue(page, value)]; // RECURSION
-        }),
+        Object.entries(data)
+          .map(([key, value]) => {
+            return [key, formatValue(page, value)]; // RECURSION
+          })
+          .filter(([_, value]) => !isEmpty(value)),
       ) as T;
     }
   };
 }
 
-function renderStructuredData(data: StructuredData | StructuredData[]): string {
-  return JSON.stringify(appendContext(data));
+function formatIssues(page: Page, kind: string, issues: Issue[]): string {
+  const lines = issues.map((issue) =>
+    `  - ${issue.path || "(root)"}: ${issue.message}`
+  );
+  return `[structured_data] ${kind} in ${page.data.url}:\n${lines.join("\n")}`;
 }
 
-function appendContext<T extends StructuredData | StructuredData[]>(
-  data: T,
-): T {
-  if (Array.isArray(data)) {
-    return data.map((item) => appendContext(item)) as T;
-  } else {
-    return { "@context": defaultContext, ...data } as T;
+function renderStructuredData(graph: Node[]): string {
+  return JSON.stringify({ "@context": defaultContext, "@graph": graph });
+}
+
+type Node = Record<string, unknown>;
+
+/**
+ * Every node with an `@id` is hoisted into the graph (and replaced by a reference
+ * where it was nested). Nodes with the same `@id` are merged into one.
+ */
+function buildGraph(roots: unknown[]): Node[] {
+  const graph: Node[] = [];
+  const nodesById = new Map<string, Node>();
+
+  function add(node: Node) {
+    const id = node["@id"];
+    if (typeof id !== "string") {
+      graph.push(node);
+      return;
+    }
+    const existing = nodesById.get(id);
+    if (existing) {
+      mergeNode(existing, node);
+    } else {
+      nodesById.set(id, node);
+      graph.push(node);
+    }
   }
+
+  function hoist(value: unknown, isRoot: boolean): unknown {
+    if (Array.isArray(value)) {
+      return value.map((item) => hoist(item, false)); // RECURSION
+    }
+    if (!isNode(value)) {
+      return value;
+    }
+    const node = Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, hoist(item, false)]), // RECURSION
+    );
+    if (isRoot || typeof node["@id"] !== "string") {
+      return node;
+    }
+    if (!isReference(node)) {
+      add(node);
+    }
+    return { "@id": node["@id"] };
+  }
+
+  for (const root of roots) {
+    const node = hoist(root, true);
+    if (isNode(node)) {
+      add(node);
+    }
+  }
+
+  return graph;
+}
+
+/**
+ * Properties missing from `target` are copied over; lists are concatenated.
+ */
+function mergeNode(target: Node, source: Node) {
+  for (const [key, value] of Object.entries(source)) {
+    const current = target[key];
+    if (current === undefined) {
+      target[key] = value;
+    } else if (Array.isArray(current) || Array.isArray(value)) {
+      target[key] = uniqueValues([...toArray(current), ...toArray(value)]);
+    } else if (
+      isNode(current) && isNode(value) && !isReference(current) &&
+      !isReference(value)
+    ) {
+      mergeNode(current, value); // RECURSION
+    }
+  }
+}
+
+function uniqueValues(values: unknown[]): unknown[] {
+  const seen = new Set<string>();
+  return values.filter((value) => {
+    const key = JSON.stringify(value);
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+function getNodeLabel(node: Node): string {
+  return String(node["@id"] ?? node["@type"]);
+}
+
+function isNode(value: unknown): value is Node {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isReference(node: Node): boolean {
+  return Object.keys(node).length === 1 && "@id" in node;
 }
 
 function extract(
   data: Record<string, unknown>,
   keys: string[],
 ): unknown {
-  let cur = data;
+  let cur: unknown = data;
   for (const key of keys) {
     if (typeof cur !== "object" || cur === null) {
-      throw new Error(
-        `Cannot extract value from object: ${keys.join(".")}`,
-      );
-    }
-
-    cur = Reflect.get(cur, key) as Record<string, unknown>;
-
-    if (cur === undefined || cur === null) {
-      throw new Error(`Value not found: ${keys.join(".")}`);
+      return undefined;
     }
+    cur = Reflect.get(cur, key);
   }
   return cur;
 }
 
+/**
+ * Empty properties are removed before rendering.
+ */
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === "" ||
+    (Array.isArray(value) && value.length === 0);
+}
+
 function isLumeDataRef(value: unknown): value is LumeDataRef {
   return typeof value === "string" && value.startsWith(prefixLumeDataRef);
 }
@@ -0,0 +1,269 @@
+export interface Issue {
+  severity: "error" | "warning";
+  path: string;
+  message: string;
+}
+
+type Check = (value: unknown, path: string) => Issue[];
+
+interface Schema {
+  required: Record<string, Check>;
+  recommended: Record<string, Check>;
+}
+
+/**
+ * Based on Google's structured data guidelines, plus what this site always sets.
+ */
+const schemas: Record<string, Schema> = {
+  Article: {
+    required: {
+      headline: headline,
+      author: oneOrMany(node("Person", "Organization")),
+    },
+    recommended: {
+      url: url,
+      datePublished: date,
+      dateModified: date,
+      image: oneOrMany(url),
+    },
+  },
+  BlogPosting: {
+    required: {
+      headline: headline,
+      author: oneOrMany(node("Person", "Organization")),
+      datePublished: date,
+    },
+    recommended: {
+      url: url,
+      dateModified: date,
+      description: text,
+      image: oneOrMany(url),
+    },
+  },
+  SoftwareSourceCode: {
+    required: {
+      name: text,
+      author: oneOrMany(node("Person", "Organization")),
+    },
+    recommended: {
+      url: url,
+      codeRepository: url,
+      programmingLanguage: oneOrMany(text),
+      dateCreated: date,
+      dateModified: date,
+    },
+  },
+  SoftwareApplication: {
+    required: {
+      name: text,
+    },
+    recommended: {
+      url: url,
+    },
+  },
+  WebSite: {
+    required: {
+      name: text,
+      url: url,
+    },
+    recommended: {
+      description: text,
+    },
+  },
+  Person: {
+    required: {
+      name: text,
+    },
+    recommended: {
+      url: url,
+    },
+  },
+  ProfilePage: {
+    required: {
+      mainEntity: node("Person", "Organization"),
+    },
+    recommended: {
+      dateCreated: date,
+      dateModified: date,
+    },
+  },
+  BreadcrumbList: {
+    required: {
+      itemListElement: breadcrumbItems,
+    },
+    recommended: {},
+  },
+};
+
+export function validateStructuredData(data: unknown, path = ""): Issue[] {
+  if (Array.isArray(data)) {
+    return data.flatMap((item, i) =>
+      validateStructuredData(item, `${path}[${i}]`)
+    );
+  }
+
+  if (!isObject(data) || isReference(data)) {
+    return [];
+  }
+
+  const type = data["@type"];
+  if (typeof type !== "string") {
+    return [error(path, "missing @type")];
+  }
+
+  const schema = schemas[type];
+  if (!schema) {
+    return [];
+  }
+
+  const issues: Issue[] = [];
+
+  for (const [key, check] of Object.entries(schema.required)) {
+    const value = data[key];
+    const propertyPath = join(path, key);
+    if (isAbsent(value)) {
+      issues.push(error(propertyPath, `required by ${type}`));
+    } else {
+      issues.push(...check(value, propertyPath));
+    }
+  }
+
+  for (const [key, check] of Object.entries(schema.recommended)) {
+    const value = data[key];
+    const propertyPath = join(path, key);
+    if (isAbsent(value)) {
+      issues.push(warning(propertyPath, `recommended for ${type}`));
+    } else {
+      issues.push(...check(value, propertyPath));
+    }
+  }
+
+  return issues;
+}
+
+// Checks
+
+function text(value: unknown, path: string): Issue[] {
+  if (typeof value !== "string") {
+    return [error(path, `expected text, got ${describe(value)}`)];
+  }
+  if (value.trim() === "") {
+    return [error(path, "expected non-empty text")];
+  }
+  return [];
+}
+
+function headline(value: unknown, path: string): Issue[] {
+  const issues = text(value, path);
+  if (issues.length === 0 && (value as string).length > 110) {
+    issues.push(warning(path, "longer than 110 characters"));
+  }
+  return issues;
+}
+
+function url(value: unknown, path: string): Issue[] {
+  if (typeof value !== "string" || !URL.canParse(value)) {
+    return [error(path, `expected an absolute URL, got ${describe(value)}`)];
+  }
+  return [];
+}
+
+function date(value: unknown, path: string): Issue[] {
+  if (typeof value !== "string" || isNaN(Date.parse(value))) {
+    return [error(path, `expected an ISO 8601 date, got ${describe(value)}`)];
+  }
+  return [];
+}
+
+/**
+ * A nested node, or a reference to a node elsewhere in the graph.
+ */
+function node(...types: string[]): Check {
+  return (value, path) => {
+    if (isObject(value) && isReference(value)) {
+      return [];
+    }
+    if (!isObject(value)) {
+      return [
+        error(path, `expected ${types.join(" or ")}, got ${describe(value)}`),
+      ];
+    }
+    if (!types.includes(value["@type"] as string)) {
+      return [
+        error(
+          path,
+          `expected ${types.join(" or ")}, got ${describe(value["@type"])}`,
+        ),
+      ];
+    }
+    return validateStructuredData(value, path);
+  };
+}
+
+function oneOrMany(check: Check): Check {
+  return (value, path) =>
+    Array.isArray(value)
+      ? value.flatMap((item, i) => check(item, `${path}[${i}]`))
+      : check(value, path);
+}
+
+function breadcrumbItems(value: unknown, path: string): Issue[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    return [error(path, "expected a non-empty list of ListItem")];
+  }
+  return value.flatMap((item, i) => {
+    const itemPath = `${path}[${i}]`;
+    if (!isObject(item) || item["@type"] !== "ListItem") {
+      return [error(itemPath, `expected ListItem, got ${describe(item)}`)];
+    }
+    const issues: Issue[] = [];
+    if (item.position !== i + 1) {
+      issues.push(error(join(itemPath, "position"), `expected ${i + 1}`));
+    }
+    if (isAbsent(item.name)) {
+      issues.push(error(join(itemPath, "name"), "required by ListItem"));
+    } else {
+      issues.push(...text(item.name, join(itemPath, "name")));
+    }
+    // The last item may omit `item`: it is the current page
+    if (isAbsent(item.item)) {
+      if (i < value.length - 1) {
+        issues.push(error(join(itemPath, "item"), "required by ListItem"));
+      }
+    } else {
+      issues.push(...url(item.item, join(itemPath, "item")));
+    }
+    return issues;
+  });
+}
+
+// Helpers
+
+function error(path: string, message: string): Issue {
+  return { severity: "error", path, message };
+}
+
+function warning(path: string, message: string): Issue {
+  return { severity: "warning", path, message };
+}
+
+function join(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isReference(value: Record<string, unknown>): boolean {
+  return Object.keys(value).length === 1 && "@id" in value;
+}
+
+function isAbsent(value: unknown): boolean {
+  return value === undefined || value === null ||
+    (Array.isArray(value) && value.length === 0);
+}
+
+function describe(value: unknown): string {
+  return value === undefined ? "nothing" : JSON.stringify(value);
+}
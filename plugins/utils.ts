@@ -0,0 +1,44 @@
+/**
+ * Helpers shared by the plugins in this directory.
+ */
+
+export function toArray<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined) {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * The origin of an absolute http(s) URL, e.g. for a CSP source list.
+ */
+export function getExternalOrigin(value: string): string | null {
+  try {
+    const url = new URL(value);
+    return url.protocol === "https:" || url.protocol === "http:"
+      ? url.origin
+      : null;
+  } catch {
+    return null; // relative URL
+  }
+}
+
+export function formatCSP(csp: Record<string, string[]>): string {
+  return Object.entries(csp)
+    .map(([key, values]) => `${key} ${values.join(" ")}`)
+    .join("; ");
+}
+
+/**
+ * The base64 digest of `data`, as used by CSP hashes and `integrity` attributes.
+ */
+export async function digestBase64(
+  algorithm: "SHA-256" | "SHA-384" | "SHA-512",
+  data: string | BufferSource,
+): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    algorithm,
+    typeof data === "string" ? new TextEncoder().encode(data) : data,
+  );
+  return btoa(String.fromCharCode(...new Uint8Array(digest)));
+}
@@ -2,6 +2,8 @@ export const layout: SiteLayout = "layouts/default.page.tsx";
 
 export const title = "404: Page not found";
 
+export const breadcrumb_parents = false;
+
 export default (_helpers: Lume.Data, { url }: Lume.Helpers) => {
   return (
     <main class="container content">
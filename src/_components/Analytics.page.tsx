@@ -1,17 +1,27 @@
-export default ({ config }: Lume.Data, _helpers: Lume.Helpers) => {
+export default ({ config }: Lume.Data, h: Lume.Helpers) => {
+  const { analytics } = config;
+
+  if (analytics.provider.type === "none") {
+    return null;
+  }
+
   return (
     <>
       <script
-        async
-        src={`https://www.googletagmanager.com/gtag/js?id=${config.google_analytics}`}
-      >
-      </script>
-      <script
-        dangerouslySetInnerHTML={{
-          __html: config.inlineScripts.googleAnalytics.src,
-        }}
-        integrity={config.inlineScripts.googleAnalytics.hash}
+        type="application/json"
+        id="analytics-config"
+        dangerouslySetInnerHTML={{ __html: JSON.stringify(analytics) }}
       />
+      {analytics.consent && (
+        <aside class="consent-banner noprint" id="analytics-consent" hidden>
+          <p>
+            May this site count your visit? No personal data is collected.
+          </p>
+          <button type="button" value="granted">Allow</button>
+          <button type="button" value="denied">Decline</button>
+        </aside>
+      )}
+      <script type="module" src={h.url("/public/js/analytics.js")} />
     </>
   );
 };
@@ -1,12 +1,49 @@
-export default ({ api, query, label }: Lume.Data) => {
-  const url = new URL("https://img.shields.io/badge/dynamic/json");
-  url.searchParams.set("url", api);
-  url.searchParams.set("query", query);
-  url.searchParams.set("label", label);
+import { log } from "lume/core/utils/log.ts";
+import { queryJSONPath, renderBadgeSVG } from "../_includes/badges.ts";
+
+interface BadgeDynamicProps {
+  /**
+   * JSON fetched by the page during the build, e.g. with `fetchGitHubJSON` and
+   * `getConfigWorkflowRunRequestURL`. `undefined` when the fetch failed.
+   */
+  source: unknown;
+  /**
+   * A JSONPath expression, e.g. from `getWorkflowRunStartedAtQuery`.
+   */
+  query: string;
+  label: string;
+  color?: string;
+  logo?: string;
+  /**
+   * Formats the matched value as the badge message.
+   */
+  format?: (value: unknown) => string;
+}
+
+export default (
+  { source, query, label, color = "blue", logo, format = String }:
+    & Lume.Data
+    & BadgeDynamicProps,
+) => {
+  let message;
+  try {
+    const value = queryJSONPath(source, query);
+    if (value === undefined || value === null) {
+      throw new Error("no match");
+    }
+    message = format(value);
+  } catch (error) {
+    log.warn(`[badges] Failed to evaluate ${query} for "${label}": ${error}`);
+    message = "unknown";
+    color = "inactive";
+  }
+
   return (
-    <img
-      alt={label}
-      src={url.toString()}
+    <span
+      class="badge"
+      dangerouslySetInnerHTML={{
+        __html: renderBadgeSVG({ label, message, color, logo }),
+      }}
     />
   );
 };
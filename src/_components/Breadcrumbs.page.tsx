@@ -0,0 +1,26 @@
+interface BreadcrumbsProps {
+  breadcrumbs?: Breadcrumb[];
+}
+
+export default (
+  { breadcrumbs }: Lume.Data & BreadcrumbsProps,
+  h: Lume.Helpers,
+) => {
+  if (!breadcrumbs || breadcrumbs.length === 0) {
+    return null;
+  }
+
+  const ancestors = breadcrumbs.slice(0, -1);
+  const current = breadcrumbs[breadcrumbs.length - 1];
+
+  return (
+    <ol class="breadcrumbs">
+      {ancestors.map((crumb) => (
+        <li>
+          <a href={h.url(crumb.url)}>{crumb.name}</a>
+        </li>
+      ))}
+      <li aria-current="page">{current.name}</li>
+    </ol>
+  );
+};
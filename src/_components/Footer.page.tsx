@@ -4,9 +4,7 @@ export default (
 ) => {
   return (
     <footer class="site-footer content container">
-      <p>
-        <select id="color-scheme-selector" />
-      </p>
+      <reader-preferences class="reader-preferences" />
     </footer>
   );
 };
@@ -32,7 +32,7 @@ export default (
       <ul class="pills">
         {gist.files.filter(isDisplayable).map((file) => (
           <li>
-            <a href={url(`/gists/${gist.id}/${file.name}`)}>
+            <a href={url(`${pageUrl}${file.name}`)}>
               {file.name}
             </a>
           </li>
@@ -0,0 +1,56 @@
+import {
+  getScreenshotFallback,
+  getScreenshotSources,
+  pickScreenshot,
+} from "../_includes/screenshots.ts";
+
+interface GistGridProps {
+  gists: GistPageData[];
+}
+
+export default (
+  { gists }: Lume.Data & GistGridProps,
+  h: Lume.Helpers,
+) => {
+  const formatSrcset = (images: GistScreenshotImage[]) =>
+    images.map((image) => `${h.url(image.url)} ${image.density}x`).join(", ");
+
+  return (
+    <section class="gists-grid">
+      {gists.map((page) => {
+        // Grid cells are square
+        const thumbnail = pickScreenshot(page.screenshots, 1);
+
+        return (
+          <article class="gist">
+            <header>
+              <h3>
+                <a href={h.url(page.url)} class="flat">
+                  {page.gist_title}
+                </a>
+              </h3>
+            </header>
+            {thumbnail && (
+              <a class="screenshot" href={h.url(page.url)}>
+                <picture>
+                  {getScreenshotSources(thumbnail).map((source) => (
+                    <source
+                      type={source.type}
+                      srcset={formatSrcset(source.images)}
+                    />
+                  ))}
+                  <img
+                    src={h.url(getScreenshotFallback(thumbnail).url)}
+                    alt={thumbnail.alt ?? ""}
+                    width={200}
+                    height={Math.round(200 / thumbnail.aspect)}
+                  />
+                </picture>
+              </a>
+            )}
+          </article>
+        );
+      })}
+    </section>
+  );
+};
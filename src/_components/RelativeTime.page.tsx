@@ -1,11 +1,16 @@
-import moment from "npm:moment";
+import { formatRelativeTime } from "../public/js/relative-time.ts";
 
 export default (
   { time }: Lume.Data & { time: Date },
+  h: Lume.Helpers,
 ) => {
+  // Without JavaScript, the build-time text stays
   return (
-    <time datetime={time.toISOString()} class="relative-time">
-      {moment(time).fromNow()}
-    </time>
+    <relative-time
+      datetime={time.toISOString()}
+      title={h.date(time, "HUMAN_DATE")}
+    >
+      {formatRelativeTime(time)}
+    </relative-time>
   );
 };
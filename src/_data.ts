@@ -1,23 +1,61 @@
-const isDev = Deno.env.get("DEV") === "true";
+import {
+  getAnalyticsCSP,
+  localAnalyticsEndpoint,
+  mergeCSP,
+} from "./_includes/analytics.ts";
 
-const googleAnalyticsMeasurementId = "G-YBDSYZM13J";
+const isDev = Deno.env.get("DEV") === "true";
 
-export const inlineScripts = {
-  googleAnalytics: {
-    src: `
-window.dataLayer = window.dataLayer || [];
-function gtag(){dataLayer.push(arguments);}
-gtag('js', new Date());
+/**
+ * Development builds report page views to the local stand-in endpoint.
+ */
+const analytics: AnalyticsConfig = isDev
+  ? {
+    provider: { type: "endpoint", url: localAnalyticsEndpoint },
+    consent: true,
+  }
+  : {
+    provider: { type: "ga4", measurementId: "G-YBDSYZM13J" },
+    consent: false,
+  };
 
-gtag('config', '${googleAnalyticsMeasurementId}');
-  `.trim(),
-    hash: "sha256-iwcQOKygKUaLqCG8x8iaG9V5wGQ5BqyIpthMl+VGE4g=",
+/**
+ * Applied to the HTML gist demos: the iframe `sandbox` and `allow` attributes, and
+ * the CSP injected into the demo document itself.
+ *
+ * Demos are served from the site's own origin, so they must not get both
+ * `allow-scripts` and `allow-same-origin`: together they let a demo lift its
+ * own sandbox.
+ * A demo opened directly at its own URL is not sandboxed; only the CSP applies.
+ */
+const gistDemoPolicy: GistDemoPolicy = {
+  sandbox: ["allow-scripts", "allow-pointer-lock"],
+  allow: ["fullscreen"],
+  csp: {
+    "default-src": ["'self'"],
+    "script-src": ["'self'", "'unsafe-inline'", "'unsafe-eval'", "blob:"],
+    "style-src": ["'self'", "'unsafe-inline'"],
+    "img-src": ["'self'", "data:", "blob:"],
+    "media-src": ["'self'", "data:", "blob:"],
+    "font-src": ["'self'", "data:"],
+    "connect-src": ["'self'", "data:", "blob:"],
+    "worker-src": ["'self'", "blob:"],
+    "form-action": ["'none'"],
   },
-} as const;
+};
+
+/**
+ * Per-gist overrides of `gistDemoPolicy`, keyed by gist id.
+ * CSP directives that are present in an override replace the default ones.
+ */
+const gistDemoPolicyOverrides: Record<string, Partial<GistDemoPolicy>> = {
+  // "<gist id>": { allow: ["fullscreen", "camera"] },
+  // A trusted gist may opt in to its own origin, e.g. for localStorage:
+  // "<gist id>": { sandbox: ["allow-scripts", "allow-same-origin"] },
+};
 
 export const config = {
   titleSeparator: " · ",
-  google_analytics: googleAnalyticsMeasurementId,
   sourceDir: "src",
 
   site: {
@@ -35,13 +73,41 @@ export const config = {
     description: "I'm a software engineer based in Amsterdam.",
   },
 
+  // Shared structured data nodes; pages reference them by @id
   data: {
     get author(): PersonSD {
       return {
         "@id": "site-url:/about/#Person",
         "@type": "Person",
         name: "lume-data:config.me.name",
+        alternateName: "lume-data:config.me.alternateName",
+        description: "lume-data:config.me.description",
         url: "site-url:/about/",
+        image: "site-url:/public/resources/me-2018.jpeg",
+        sameAs: [
+          "https://www.linkedin.com/in/ggarciat/",
+          "https://github.com/garciat",
+        ],
+      };
+    },
+    get website(): WebSiteSD {
+      return {
+        "@id": "site-url:/#WebSite",
+        "@type": "WebSite",
+        name: "lume-data:config.site.name",
+        url: "site-url:/",
+        description: "lume-data:config.site.description",
+        author: this.author,
+      };
+    },
+    get blog(): AnySD {
+      return {
+        "@id": "site-url:/#Blog",
+        "@type": "Blog",
+        name: "lume-data:config.site.name",
+        url: "site-url:/",
+        author: this.author,
+        isPartOf: { "@id": "site-url:/#WebSite" },
       };
     },
   },
@@ -50,6 +116,12 @@ export const config = {
     username: "Garciat",
     base_project_url: "https://garciat.com",
     profile_url: "https://github.com/garciat",
+    // Max number of gists or repositories fetched in parallel
+    concurrency: 8,
+    // What to do when GitHub requests fail:
+    // - "fail": fail the build
+    // - "degrade": log a warning and render pages from whatever data was loaded
+    onError: (isDev ? "degrade" : "fail") as "fail" | "degrade",
     site: {
       repo: "garciat.github.io",
       branch: "main",
@@ -57,8 +129,37 @@ export const config = {
     },
   },
 
+  gists: {
+    demoPolicy: gistDemoPolicy,
+    demoPolicyOverrides: gistDemoPolicyOverrides,
+  },
+
+  // Syntax highlighting themes in `public/css/highlight.js@11.11.1/`; the first
+  // one is the default
+  codeThemes: [
+    {
+      id: "github",
+      name: "GitHub code",
+      stylesheets: { light: "github.css", dark: "github-dark.css" },
+    },
+    {
+      id: "atom-one",
+      name: "Atom One code",
+      stylesheets: { light: "atom-one-light.css", dark: "atom-one-dark.css" },
+    },
+    {
+      id: "a11y",
+      name: "Accessible code",
+      stylesheets: { light: "a11y-light.css", dark: "a11y-dark.css" },
+    },
+  ],
+
+  analytics,
+
   // Content Security Policy
-  csp: {
+  // Hashes of inline scripts and styles, and the `cspExternalOrigins` that the
+  // page references, are added per page by `plugins/csp`
+  csp: mergeCSP({
     ...(isDev ? {} : { "upgrade-insecure-requests": [] }),
     "base-uri": [
       "'none'",
@@ -77,26 +178,24 @@ export const config = {
     ],
     "img-src": [
       "'self'",
-      "https://img.shields.io",
-      "https://*.google-analytics.com https://*.googletagmanager.com",
     ],
     "script-src": [
       "'self'",
-      isDev ? "'unsafe-inline'" : "",
-      `'${inlineScripts.googleAnalytics.hash}'`,
-      "https://esm.sh",
-      "https://*.googletagmanager.com",
     ],
     "connect-src": [
       "'self'",
-      "https://*.google-analytics.com https://*.analytics.google.com https://*.googletagmanager.com",
     ],
     "frame-src": [
       "'self'",
     ],
-  },
+  }, getAnalyticsCSP(analytics.provider)),
 
-  inlineScripts,
+  // Origins that pages may load scripts and stylesheets from; a page's CSP only
+  // includes the ones it references
+  cspExternalOrigins: {
+    "script-src": [],
+    "style-src": [],
+  } as Record<string, string[]>,
 } as const;
 
 export const i18n = {
@@ -108,18 +207,37 @@ export const i18n = {
 declare global {
   type SiteConfig = typeof config;
 
+  interface GistDemoPolicy {
+    sandbox: string[];
+    allow: string[];
+    csp: Record<string, string[]>;
+  }
+
   type SiteLayout =
     | "layouts/base.page.tsx"
     | "layouts/default.page.tsx"
     | "layouts/gist.page.tsx"
+    | "layouts/gist_source.page.tsx"
+    | "layouts/gist_tag_result.page.tsx"
     | "layouts/page.page.tsx"
     | "layouts/post.page.tsx"
+    | "layouts/redirect.page.tsx"
     | "layouts/archive_result.page.tsx";
 
+  /**
+   * Rendered as Open Graph and Twitter card metadata.
+   */
+  interface SocialImage {
+    url: string;
+    aspect: number;
+    alt?: string;
+  }
+
   namespace Lume {
     interface Data {
       config: SiteConfig;
       i18n: typeof i18n;
+      social_image?: SocialImage;
     }
   }
 }
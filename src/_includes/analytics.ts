@@ -0,0 +1,84 @@
+import type { Middleware } from "lume/core/server.ts";
+import { log } from "lume/core/utils/log.ts";
+import { getExternalOrigin } from "../../plugins/utils.ts";
+
+/**
+ * Where the `endpoint` provider sends page views during development.
+ * See `analyticsStandIn`.
+ */
+export const localAnalyticsEndpoint = "/_analytics";
+
+declare global {
+  type AnalyticsProvider =
+    | { type: "ga4"; measurementId: string }
+    | { type: "endpoint"; url: string }
+    | { type: "none" };
+
+  interface AnalyticsConfig {
+    provider: AnalyticsProvider;
+    /**
+     * Show a banner, and load the provider only after the reader opts in.
+     */
+    consent: boolean;
+  }
+}
+
+/**
+ * The CSP directives that the provider needs, on top of `'self'`.
+ */
+export function getAnalyticsCSP(
+  provider: AnalyticsProvider,
+): Record<string, string[]> {
+  switch (provider.type) {
+    case "ga4":
+      return {
+        "script-src": ["https://*.googletagmanager.com"],
+        "img-src": [
+          "https://*.google-analytics.com",
+          "https://*.googletagmanager.com",
+        ],
+        "connect-src": [
+          "https://*.google-analytics.com",
+          "https://*.analytics.google.com",
+          "https://*.googletagmanager.com",
+        ],
+      };
+    case "endpoint": {
+      const origin = getExternalOrigin(provider.url);
+      return origin ? { "connect-src": [origin] } : {};
+    }
+    case "none":
+      return {};
+  }
+}
+
+/**
+ * Adds the sources in `extra` to the directives in `csp`.
+ */
+export function mergeCSP(
+  csp: Record<string, string[]>,
+  extra: Record<string, string[]>,
+): Record<string, string[]> {
+  const merged = { ...csp };
+  for (const [directive, sources] of Object.entries(extra)) {
+    merged[directive] = [
+      ...new Set([...(merged[directive] ?? []), ...sources]),
+    ];
+  }
+  return merged;
+}
+
+/**
+ * A stand-in for a self-hosted analytics endpoint, for `lume -s`.
+ * It logs each page view.
+ */
+export function analyticsStandIn(): Middleware {
+  return async (request, next) => {
+    const { pathname } = new URL(request.url);
+    if (request.method !== "POST" || pathname !== localAnalyticsEndpoint) {
+      return next(request);
+    }
+    log.info(`[analytics] <gray>${await request.text()}</gray>`);
+    return new Response(null, { status: 204 });
+  };
+}
@@ -0,0 +1,157 @@
+import * as simpleIcons from "npm:simple-icons@16.33.0";
+
+/**
+ * The named colors that shields.io accepts; anything else is a hex color.
+ */
+const namedColors: Record<string, string> = {
+  brightgreen: "#4c1",
+  green: "#97ca00",
+  yellowgreen: "#a4a61d",
+  yellow: "#dfb317",
+  orange: "#fe7d37",
+  red: "#e05d44",
+  blue: "#007ec6",
+  grey: "#555",
+  gray: "#555",
+  lightgrey: "#9f9f9f",
+  lightgray: "#9f9f9f",
+  success: "#4c1",
+  important: "#fe7d37",
+  critical: "#e05d44",
+  informational: "#007ec6",
+  inactive: "#9f9f9f",
+};
+
+const labelColor = "#555";
+
+const height = 20;
+
+const padding = 6;
+
+const logoSize = 14;
+
+interface Badge {
+  label?: string;
+  message: string;
+  color: string;
+  /**
+   * A Simple Icons slug, e.g. `github`.
+   */
+  logo?: string;
+}
+
+/**
+ * A badge in the shields.io "flat" style.
+ */
+export function renderBadgeSVG(
+  { label, message, color, logo }: Badge,
+  altText = label ? `${label}: ${message}` : message,
+): string {
+  const icon = logo ? findIcon(logo, altText) : undefined;
+
+  const logoWidth = icon ? logoSize + (label ? 3 : 0) : 0;
+  const labelWidth = label || icon
+    ? measureText(label ?? "") + logoWidth + 2 * padding
+    : 0;
+  const messageWidth = measureText(message) + 2 * padding;
+  const width = labelWidth + messageWidth;
+
+  const id = `badge-${hashCode(`${label}|${message}|${color}|${logo}`)}`;
+  const alt = escapeXML(altText);
+  const fill = formatColor(color);
+  const logoScale = logoSize / 24; // Simple Icons are 24x24
+  const labelX = padding + logoWidth + measureText(label ?? "") / 2;
+  const messageX = labelWidth + messageWidth / 2;
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" role="img" aria-label="${alt}">`,
+    `<title>${alt}</title>`,
+    `<linearGradient id="${id}-s" x2="0" y2="100%"><stop offset="0" stop-color="#bbb" stop-opacity=".1"/><stop offset="1" stop-opacity=".1"/></linearGradient>`,
+    `<clipPath id="${id}-r"><rect width="${width}" height="${height}" rx="3" fill="#fff"/></clipPath>`,
+    `<g clip-path="url(#${id}-r)">`,
+    `<rect width="${labelWidth}" height="${height}" fill="${labelColor}"/>`,
+    `<rect x="${labelWidth}" width="${messageWidth}" height="${height}" fill="${fill}"/>`,
+    `<rect width="${width}" height="${height}" fill="url(#${id}-s)"/>`,
+    `</g>`,
+    `<g fill="#fff" text-anchor="middle" font-family="Verdana,Geneva,DejaVu Sans,sans-serif" font-size="11">`,
+    icon
+      ? `<path transform="translate(${padding} 3) scale(${logoScale})" d="${icon.path}"/>`
+      : "",
+    label ? `<text x="${labelX}" y="14">${escapeXML(label)}</text>` : "",
+    `<text x="${messageX}" y="14">${escapeXML(message)}</text>`,
+    `</g>`,
+    `</svg>`,
+  ].join("");
+}
+
+/**
+ * Evaluates a JSONPath expression like `$.workflow_runs[0].run_started_at`.
+ * Only child and index selectors are supported.
+ */
+export function queryJSONPath(data: unknown, query: string): unknown {
+  if (!query.startsWith("$")) {
+    throw new Error(`Invalid JSONPath: ${query}`);
+  }
+
+  const selectors = query.slice(1).matchAll(
+    /\.([\w$-]+)|\[(\d+)\]|\[(['"])(.*?)\3\]/g,
+  );
+
+  let value = data;
+  for (const [, key, index, , quotedKey] of selectors) {
+    if (value === null || typeof value !== "object") {
+      return undefined;
+    }
+    const selector = key ?? quotedKey ?? Number(index);
+    value = (value as Record<string | number, unknown>)[selector];
+  }
+  return value;
+}
+
+function findIcon(slug: string, badge: string) {
+  const icon = Object.values(simpleIcons).find((icon) => icon.slug === slug);
+  if (!icon) {
+    throw new Error(
+      `[badges] Unknown logo "${slug}" in the badge "${badge}": expected a Simple Icons slug`,
+    );
+  }
+  return icon;
+}
+
+function formatColor(color: string): string {
+  return namedColors[color] ?? `#${color.replace(/^#/, "")}`;
+}
+
+/**
+ * Approximates the width of `text` in 11px Verdana, like shields.io does.
+ */
+function measureText(text: string): number {
+  let width = 0;
+  for (const char of text) {
+    if ("fijlrt.,:;!|'()[] ".includes(char)) {
+      width += 4;
+    } else if ("mwMW@%".includes(char)) {
+      width += 10;
+    } else if (char >= "A" && char <= "Z") {
+      width += 7.5;
+    } else {
+      width += 6.5;
+    }
+  }
+  return Math.round(width);
+}
+
+function hashCode(text: string): string {
+  let hash = 0;
+  for (const char of text) {
+    hash = (Math.imul(hash, 31) + char.codePointAt(0)!) | 0;
+  }
+  return (hash >>> 0).toString(36);
+}
+
+function escapeXML(text: string): string {
+  return text.replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;");
+}
@@ -0,0 +1,54 @@
+/**
+ * Every slug that each gist has ever had, keyed by gist id.
+ *
+ * The history is committed data: builds add the current slugs to it, and the
+ * updated file must be committed so that old gist URLs keep redirecting after a
+ * gist is renamed. CI builds start from a clean checkout, so their additions are
+ * lost unless the file is committed.
+ */
+export type GistSlugHistory = Record<string, string[]>;
+
+export const GIST_SLUGS_PATH = "gist_slugs.json";
+
+export async function loadGistSlugHistory(): Promise<GistSlugHistory> {
+  try {
+    return JSON.parse(await Deno.readTextFile(GIST_SLUGS_PATH));
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return {};
+    }
+    throw error;
+  }
+}
+
+/**
+ * Records the current slug of each gist and returns the updated history, and
+ * the slugs that were not recorded yet.
+ * The file is only written when something changed.
+ */
+export async function updateGistSlugHistory(
+  currentSlugs: Record<string, string>,
+): Promise<{ history: GistSlugHistory; added: string[] }> {
+  const history = await loadGistSlugHistory();
+
+  const added = [];
+  for (const [gistId, slug] of Object.entries(currentSlugs)) {
+    const slugs = history[gistId] ??= [];
+    if (!slugs.includes(slug)) {
+      slugs.push(slug);
+      added.push(slug);
+    }
+  }
+
+  if (added.length > 0) {
+    const sorted = Object.fromEntries(
+      Object.entries(history).toSorted(([a], [b]) => a.localeCompare(b)),
+    );
+    await Deno.writeTextFile(
+      GIST_SLUGS_PATH,
+      JSON.stringify(sorted, null, 2) + "\n",
+    );
+  }
+
+  return { history, added };
+}
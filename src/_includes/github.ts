@@ -2,6 +2,7 @@ import * as OctokitTypes from "npm:@octokit/types";
 import * as OctokitOpenApiTypes from "npm:@octokit/openapi-types";
 import { Octokit } from "npm:@octokit/core";
 import { paginateRest } from "npm:@octokit/plugin-paginate-rest";
+import { log } from "lume/core/utils/log.ts";
 
 // Type definitions are not loading correctly from the Octokit plugin
 
@@ -22,9 +23,88 @@ export type GitHubRepositoriesResponse =
 
 const GITHUB_TOKEN = Deno.env.get("MY_GITHUB_TOKEN");
 
+/**
+ * - `record`: perform live requests and save every response to the fixtures directory
+ * - `replay`: serve every request from the fixtures directory; never touch the network
+ */
+type FixturesMode = "record" | "replay";
+
+const GITHUB_FIXTURES_MODE = parseFixturesMode(Deno.env.get("GITHUB_FIXTURES"));
+
+const GITHUB_FIXTURES_DIR = Deno.env.get("GITHUB_FIXTURES_DIR") ??
+  "_fixtures/github";
+
+const GITHUB_CACHE_DIR = Deno.env.get("GITHUB_CACHE_DIR") ?? "_cache/github";
+
+/**
+ * Internal request header that marks a response as immutable for a given version.
+ * It is consumed by the cache and never sent over the network.
+ */
+const CACHE_VERSION_HEADER = "x-cache-version";
+
+const cacheStats = { hits: 0, network: 0 };
+
+const MAX_RETRIES = 3;
+
+/**
+ * Longest we are willing to wait (in seconds) for a rate limit to reset.
+ */
+const MAX_RETRY_WAIT = 60;
+
+/**
+ * All GitHub traffic (API and raw gist files) goes through this function.
+ */
+const githubFetch = withFixtures(withCache(withRetries(fetch)));
+
 const MyOctokit = Octokit.plugin(paginateRest);
 
-const octokit = new MyOctokit({ auth: GITHUB_TOKEN });
+const octokit = new MyOctokit({
+  auth: GITHUB_TOKEN,
+  request: { fetch: githubFetch },
+});
+
+if (!GITHUB_TOKEN && GITHUB_FIXTURES_MODE !== "replay") {
+  log.warn(
+    "[github] MY_GITHUB_TOKEN is not set: API requests are unauthenticated and limited to 60 per hour",
+  );
+}
+
+/**
+ * Thrown when a GitHub request still fails after all retries.
+ */
+export class GitHubRequestError extends Error {
+  constructor(
+    request: Request,
+    reason: string,
+    response?: Response,
+    options?: ErrorOptions,
+  ) {
+    const url = new URL(request.url);
+    const lines = [
+      `GitHub request failed: ${request.method} ${url.host}${url.pathname} (${reason})`,
+      `  Rate limit: ${formatRateLimit(response)}`,
+      `  Token: ${
+        GITHUB_TOKEN
+          ? "MY_GITHUB_TOKEN is configured"
+          : "MY_GITHUB_TOKEN is not set; unauthenticated requests are limited to 60 per hour"
+      }`,
+    ];
+    super(lines.join("\n"), options);
+    this.name = "GitHubRequestError";
+  }
+}
+
+/**
+ * Depending on `config.github.onError`, either rethrow a GitHub failure or log it
+ * so that the page is rendered from whatever data was loaded.
+ */
+export function handleGitHubError(config: SiteConfig, error: unknown) {
+  if (config.github.onError === "fail") {
+    throw error;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  log.warn(`[github] ${message}\nRendering with partial data.`);
+}
 
 export function getPaginatedUserGists(username: string): AsyncIterable<
   OctokitTypes.OctokitResponse<GitHubGistsResponse>
@@ -69,6 +149,39 @@ export async function getRepositoryReadmeTitle(
   return null;
 }
 
+/**
+ * Gist files are cached by the gist's `updated_at`, so files of unchanged gists
+ * are never downloaded again.
+ */
+export function fetchGistRawFile(
+  gist: GitHubGist,
+  rawUrl: string,
+): Promise<Response> {
+  return githubFetch(rawUrl, {
+    headers: { [CACHE_VERSION_HEADER]: gist.updated_at },
+  });
+}
+
+/**
+ * GETs an API URL, e.g. from `getConfigWorkflowRunRequestURL`, with the same
+ * authentication, cache and fixtures as every other request.
+ */
+export async function fetchGitHubJSON(url: string): Promise<unknown> {
+  const response = await octokit.request(`GET ${url}`);
+  return response.data;
+}
+
+export function logGitHubCacheStats() {
+  const { hits, network } = cacheStats;
+  if (hits + network > 0) {
+    log.info(
+      `[github] ${hits} cache hits, ${network} network requests`,
+    );
+  }
+  cacheStats.hits = 0;
+  cacheStats.network = 0;
+}
+
 export function getRepositoryURL(
   username: string,
   repositoryName: string,
@@ -108,6 +221,17 @@ export function getConfigRepositoryPathURL(
   return `${getConfigRepositoryURL(config)}/${config.sourceDir}${path}`;
 }
 
+export function getConfigRepositoryCommitURL(
+  config: SiteConfig,
+  hash: string,
+): string {
+  const base = getRepositoryURL(
+    config.github.username,
+    config.github.site.repo,
+  );
+  return `${base}/commit/${hash}`;
+}
+
 export function getConfigWorkflowRunRequestURL(config: SiteConfig) {
   const request = octokit.request.endpoint(
     "GET /repos/{owner}/{repo}/actions/workflows/{workflow_id}/runs",
@@ -126,3 +250,305 @@ export function getConfigWorkflowRunRequestURL(config: SiteConfig) {
 export function getWorkflowRunStartedAtQuery() {
   return "$.workflow_runs[0].run_started_at";
 }
+
+function parseFixturesMode(value: string | undefined): FixturesMode | null {
+  switch (value) {
+    case undefined:
+    case "":
+      return null;
+    case "record":
+    case "replay":
+      return value;
+    default:
+      throw new Error(
+        `Invalid GITHUB_FIXTURES value: ${value} (expected "record" or "replay")`,
+      );
+  }
+}
+
+// Fixtures
+
+function withFixtures(next: typeof fetch): typeof fetch {
+  switch (GITHUB_FIXTURES_MODE) {
+    case "record":
+      log.info(
+        `[github] Recording fixtures to <gray>${GITHUB_FIXTURES_DIR}</gray>`,
+      );
+      return async (input, init) => {
+        const request = new Request(input, init);
+        const response = await next(request);
+        const path = await getStoragePath(GITHUB_FIXTURES_DIR, request);
+        return await storeResponse(path, request, response);
+      };
+    case "replay":
+      log.info(
+        `[github] Replaying fixtures from <gray>${GITHUB_FIXTURES_DIR}</gray>`,
+      );
+      return async (input, init) => {
+        const request = new Request(input, init);
+        const path = await getStoragePath(GITHUB_FIXTURES_DIR, request);
+        const stored = await loadResponse(path);
+        if (!stored) {
+          throw new Error(
+            `No GitHub fixture for ${request.method} ${request.url} in ${GITHUB_FIXTURES_DIR}. ` +
+              `Run the build with GITHUB_FIXTURES=record to (re)create the fixtures.`,
+          );
+        }
+        return stored.response;
+      };
+    default:
+      return next;
+  }
+}
+
+// Retries
+
+function withRetries(next: typeof fetch): typeof fetch {
+  return async (input, init) => {
+    const request = new Request(input, init);
+
+    for (let attempt = 0;; attempt++) {
+      let response: Response;
+      try {
+        response = await next(request.clone());
+      } catch (error) {
+        if (attempt >= MAX_RETRIES) {
+          throw new GitHubRequestError(request, String(error), undefined, {
+            cause: error,
+          });
+        }
+        await sleep(backoffSeconds(attempt));
+        continue;
+      }
+
+      if (!isRetryable(response)) {
+        return response;
+      }
+
+      const wait = getRetryWait(response, attempt);
+      if (attempt >= MAX_RETRIES || wait > MAX_RETRY_WAIT) {
+        throw new GitHubRequestError(
+          request,
+          `${response.status} ${response.statusText}`,
+          response,
+        );
+      }
+
+      await response.body?.cancel();
+      log.warn(
+        `[github] ${response.status} for ${request.url}; retrying in ${wait}s`,
+      );
+      await sleep(wait);
+    }
+  };
+}
+
+function isRetryable(response: Response): boolean {
+  if (response.status === 429 || response.status >= 500) {
+    return true;
+  }
+  // 403 is also used for permission errors, which are not worth retrying
+  return response.status === 403 &&
+    (response.headers.get("x-ratelimit-remaining") === "0" ||
+      response.headers.has("retry-after"));
+}
+
+/**
+ * In seconds, following GitHub's guidance: honor `retry-after`, then
+ * `x-ratelimit-reset`, then fall back to exponential backoff.
+ */
+function getRetryWait(response: Response, attempt: number): number {
+  const retryAfter = parseRetryAfter(response.headers.get("retry-after"));
+  if (retryAfter !== undefined) {
+    return Math.min(Math.max(0, retryAfter), MAX_RETRY_WAIT);
+  }
+
+  const reset = response.headers.get("x-ratelimit-reset");
+  if (response.headers.get("x-ratelimit-remaining") === "0" && reset) {
+    return Math.max(0, Number(reset) - Math.floor(Date.now() / 1000)) + 1;
+  }
+
+  return backoffSeconds(attempt);
+}
+
+/**
+ * `retry-after` is either a number of seconds or an HTTP date.
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value);
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.ceil((date - Date.now()) / 1000);
+}
+
+function backoffSeconds(attempt: number): number {
+  return 2 ** attempt;
+}
+
+function sleep(seconds: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, seconds * 1000));
+}
+
+function formatRateLimit(response: Response | undefined): string {
+  const remaining = response?.headers.get("x-ratelimit-remaining");
+  const limit = response?.headers.get("x-ratelimit-limit");
+  const reset = response?.headers.get("x-ratelimit-reset");
+  if (!remaining) {
+    return "unknown";
+  }
+  const resetAt = reset
+    ? ` (resets at ${new Date(Number(reset) * 1000).toISOString()})`
+    : "";
+  return `${remaining} of ${limit ?? "?"} requests remaining${resetAt}`;
+}
+
+// Cache
+
+/**
+ * Versioned requests are served from disk without touching the network.
+ * Other requests are revalidated with `If-None-Match` / `If-Modified-Since`.
+ */
+function withCache(next: typeof fetch): typeof fetch {
+  return async (input, init) => {
+    const request = new Request(input, init);
+    const version = request.headers.get(CACHE_VERSION_HEADER) ?? undefined;
+    request.headers.delete(CACHE_VERSION_HEADER);
+
+    if (request.method !== "GET") {
+      cacheStats.network++;
+      return await next(request);
+    }
+
+    const path = await getStoragePath(GITHUB_CACHE_DIR, request);
+    const cached = await loadResponse(path);
+
+    if (cached && version !== undefined && cached.meta.version === version) {
+      cacheStats.hits++;
+      return cached.response;
+    }
+
+    if (cached && version === undefined) {
+      const etag = cached.response.headers.get("etag");
+      const lastModified = cached.response.headers.get("last-modified");
+      if (etag) {
+        request.headers.set("if-none-match", etag);
+      }
+      if (lastModified) {
+        request.headers.set("if-modified-since", lastModified);
+      }
+    }
+
+    const response = await next(request);
+
+    if (response.status === 304 && cached) {
+      cacheStats.hits++;
+      return cached.response;
+    }
+
+    cacheStats.network++;
+
+    if (
+      response.status === 200 &&
+      (version !== undefined || response.headers.has("etag") ||
+        response.headers.has("last-modified"))
+    ) {
+      return await storeResponse(path, request, response, version);
+    }
+
+    return response;
+  };
+}
+
+// Storage
+
+/**
+ * Response metadata; the body is stored byte-exact in a sibling `.body` file.
+ */
+interface StoredResponse {
+  method: string;
+  url: string;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  version?: string;
+}
+
+async function storeResponse(
+  path: string,
+  request: Request,
+  response: Response,
+  version?: string,
+): Promise<Response> {
+  const body = new Uint8Array(await response.arrayBuffer());
+
+  const meta: StoredResponse = {
+    method: request.method,
+    url: request.url,
+    status: response.status,
+    statusText: response.statusText,
+    headers: Object.fromEntries(response.headers),
+    version,
+  };
+
+  await Deno.mkdir(dirname(path), { recursive: true });
+  await Deno.writeTextFile(
+    `${path}.json`,
+    JSON.stringify(meta, null, 2) + "\n",
+  );
+  await Deno.writeFile(`${path}.body`, body);
+
+  return createResponse(meta, body);
+}
+
+async function loadResponse(
+  path: string,
+): Promise<{ meta: StoredResponse; response: Response } | null> {
+  try {
+    const meta: StoredResponse = JSON.parse(
+      await Deno.readTextFile(`${path}.json`),
+    );
+    const body = await Deno.readFile(`${path}.body`);
+    return { meta, response: createResponse(meta, body) };
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+function createResponse(meta: StoredResponse, body: Uint8Array): Response {
+  return new Response(isNullBodyStatus(meta.status) ? null : body, {
+    status: meta.status,
+    statusText: meta.statusText,
+    headers: meta.headers,
+  });
+}
+
+function isNullBodyStatus(status: number): boolean {
+  return status === 101 || status === 204 || status === 205 || status === 304;
+}
+
+/**
+ * Stored responses are keyed by request method and URL (not headers), so that
+ * they do not depend on whether a token was configured.
+ */
+async function getStoragePath(dir: string, request: Request): Promise<string> {
+  const key = `${request.method} ${request.url}`;
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(key),
+  );
+  const hex = Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+  return `${dir}/${hex}`;
+}
+
+function dirname(path: string): string {
+  return path.slice(0, path.lastIndexOf("/"));
+}
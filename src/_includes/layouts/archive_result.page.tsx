@@ -1,4 +1,5 @@
-import { pickAll, setDateModified } from "../utils.ts";
+import { addStructuredData, pickAll, setDateModified } from "../utils.ts";
+import { blogPostingNode, collectionPageNode } from "../schema.ts";
 
 export const layout: SiteLayout = "layouts/default.page.tsx";
 
@@ -6,61 +7,38 @@ export default (
   data: Lume.Data,
   h: Lume.Helpers,
 ) => {
-  const { search, config, page } = data;
-
-  const authorRef = `${h.url("/about/", true)}#Person`;
+  const { search, page } = data;
 
   const posts = search.pages<Lume.Data>(data.search_query, "date=desc");
 
   setDateModified(page, pickAll("dateModified", posts));
 
+  addStructuredData(
+    page,
+    collectionPageNode(data, posts.map(blogPostingNode), {
+      keywords: data.tag,
+      isPartOf: { "@id": "site-url:/archive/#CollectionPage" },
+    }),
+  );
+
   return (
-    <main
-      itemscope
-      itemtype="http://schema.org/CollectionPage"
-      class="container content"
-    >
-      <link itemprop="url" href={h.url(data.url, true)} />
-      <meta itemprop="keywords" content={data.tag} />
+    <main class="container content">
       <header>
         <p>
-          <a itemprop="isPartOf" href={h.url("../")}>
+          <a href={h.url("../")}>
             &#8676; Back
           </a>
         </p>
-        <h2 itemprop="name">{data.title}</h2>
+        <h2>{data.title}</h2>
       </header>
-      <aside
-        itemprop="author"
-        itemscope
-        itemtype="http://schema.org/Person"
-        itemid={authorRef}
-      >
-        <link itemprop="url" href={h.url("/about/", true)} />
-        <meta itemprop="name" content={config.me.name} />
-      </aside>
       <section>
-        <ul
-          itemprop="mainEntity"
-          itemscope
-          itemtype="http://schema.org/ItemList"
-        >
+        <ul>
           {posts.map((post) => (
-            <li
-              itemprop="itemListElement"
-              itemscope
-              itemtype="http://schema.org/BlogPosting"
-            >
-              <link itemprop="author" href={authorRef} />
-              <a itemprop="url" href={h.url(post.url)}>
-                <span itemprop="headline">{post.title}</span>
-              </a>
+            <li>
+              <a href={h.url(post.url)}>{post.title}</a>
               <span class="weak nowrap">
                 {" - "}
-                <time
-                  itemprop="datePublished"
-                  datetime={post.date.toISOString()}
-                >
+                <time datetime={post.date.toISOString()}>
                   {h.date(post.date, "HUMAN_DATE")}
                 </time>
               </span>
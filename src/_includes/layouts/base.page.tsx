@@ -4,14 +4,20 @@ export default (
 ) => {
   const { comp, config, children } = page;
 
+  // Only the default theme loads up front; `preferences.js` enables the others
+  const codeThemeStylesheets = config.codeThemes.flatMap((theme, i) =>
+    (["light", "dark"] as const).map((scheme) => ({
+      theme,
+      scheme,
+      media: `(prefers-color-scheme: ${scheme})`,
+      disabled: i > 0,
+    }))
+  );
+
   return (
     <html lang="en">
       <head>
         <meta charset="utf-8" />
-        <meta
-          http-equiv="Content-Security-Policy"
-          content={formatCSP(config.csp)}
-        />
         <meta name="referrer" content="same-origin" />
 
         {page.description && (
@@ -39,6 +45,38 @@ export default (
           </>
         )}
 
+        {page.url !== "/" && page.social_image && (
+          <>
+            <meta property="og:type" content="article" />
+            <meta property="og:site_name" content={config.site.name} />
+            <meta property="og:title" content={page.title} />
+            {page.description && (
+              <meta property="og:description" content={page.description} />
+            )}
+            <meta property="og:url" content={h.url(page.url, true)} />
+            <meta
+              property="og:image"
+              content={h.url(page.social_image.url, true)}
+            />
+            {page.social_image.alt && (
+              <meta property="og:image:alt" content={page.social_image.alt} />
+            )}
+            <meta
+              name="twitter:card"
+              content={page.social_image.aspect > 1.5
+                ? "summary_large_image"
+                : "summary"}
+            />
+            <meta
+              name="twitter:image"
+              content={h.url(page.social_image.url, true)}
+            />
+            {page.social_image.alt && (
+              <meta name="twitter:image:alt" content={page.social_image.alt} />
+            )}
+          </>
+        )}
+
         <link rel="canonical" href={h.url(page.url, true)} />
 
         <link
@@ -54,23 +92,22 @@ export default (
           title="Posts"
         />
 
-        <comp.Analytics />
-
         <link rel="stylesheet" href={h.url("/public/css/main.css")} />
-        <link
-          rel="stylesheet"
-          href={h.url("/public/css/highlight.js@11.11.1/github.css")}
-          media="(prefers-color-scheme: light)"
-          data-theme="light"
-          crossorigin="anonymous"
-        />
-        <link
-          rel="stylesheet"
-          href={h.url("/public/css/highlight.js@11.11.1/github-dark.css")}
-          media="(prefers-color-scheme: dark)"
-          data-theme="dark"
-          crossorigin="anonymous"
-        />
+        {codeThemeStylesheets.map(({ theme, scheme, media, disabled }) => (
+          <link
+            rel="stylesheet"
+            href={h.url(
+              `/public/css/highlight.js@11.11.1/${theme.stylesheets[scheme]}`,
+            )}
+            media={media}
+            disabled={disabled}
+            data-media={media}
+            data-theme={scheme}
+            data-code-theme={theme.id}
+            data-code-theme-name={theme.name}
+            crossorigin="anonymous"
+          />
+        ))}
 
         <link
           rel="icon"
@@ -87,16 +124,12 @@ export default (
 
       <body>
         {/* Load this as a render-blocking script to prevent screen flickering. */}
-        <script src={h.url("/public/js/theme.js")} />
+        <script src={h.url("/public/js/preferences.js")} />
 
         {children}
+
+        <comp.Analytics />
       </body>
     </html>
   );
 };
-
-function formatCSP(csp: Record<string, string[]>) {
-  return Object.entries(csp)
-    .map(([key, values]) => `${key} ${values.join(" ")}`)
-    .join("; ");
-}
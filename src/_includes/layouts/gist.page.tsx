@@ -1,21 +1,28 @@
+import { isImageMimeType } from "../mime.ts";
+
 export const layout: SiteLayout = "layouts/base.page.tsx";
 
 export default (
   page: Lume.Data & GistPageData,
   h: Lume.Helpers,
 ) => {
-  const { search } = page;
+  const { comp, search } = page;
+
+  const files = search.pages<GistFileData>(
+    `type=gist-file gist_id=${page.gist_id}`,
+    "name=asc",
+  );
 
-  const displayables = search.pages<GistFileData>(
-    `type=gist-file gist_id=${page.gist_id} is_displayable=true`,
+  const displayables = files.filter((file) => file.is_displayable);
+
+  const sources = search.pages<GistSourceData>(
+    `type=gist-source gist_id=${page.gist_id}`,
   );
 
   return (
     <>
       <nav class="post-navigation container content">
-        <a href={h.url("/gists/")}>
-          &#8676; Back
-        </a>
+        <comp.Breadcrumbs breadcrumbs={page.breadcrumbs} />
       </nav>
       <main class="container content gist-page">
         <header>
@@ -27,11 +34,47 @@ export default (
             <a href={page.gist_url}>
               View gist on GitHub
             </a>
+            <a href={h.url(`/gists/id/${page.gist_id}/`)}>
+              Permalink
+            </a>
           </section>
         </header>
 
         {page.description && <p>{page.description}</p>}
 
+        <section>
+          <h2>Files</h2>
+          <ul class="gist-files">
+            {files.map((file) => {
+              const source = sources.find((s) => s.file_name === file.name);
+              if (source) {
+                return (
+                  <li>
+                    <a href={h.url(source.url)}>{file.name}</a>{" "}
+                    <a href={h.url(file.url)} class="weak small">raw</a>
+                  </li>
+                );
+              } else if (isImageMimeType(file.mime_type)) {
+                return (
+                  <li>
+                    <a href={h.url(file.url)}>{file.name}</a>{" "}
+                    <span class="weak small">image</span>
+                  </li>
+                );
+              } else {
+                return (
+                  <li>
+                    <a href={h.url(file.url)} download={file.name}>
+                      {file.name}
+                    </a>{" "}
+                    <span class="weak small">download</span>
+                  </li>
+                );
+              }
+            })}
+          </ul>
+        </section>
+
         {displayables.map((file) => (
           <article>
             <header class="hstack-left">
@@ -42,6 +85,8 @@ export default (
             </header>
             <iframe
               src={h.url(file.url)}
+              sandbox={file.demo_policy?.sandbox.join(" ")}
+              allow={file.demo_policy?.allow.join("; ")}
             />
           </article>
         ))}
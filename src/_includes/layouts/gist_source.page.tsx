@@ -0,0 +1,44 @@
+export const layout: SiteLayout = "layouts/base.page.tsx";
+
+export default (
+  page: Lume.Data & GistSourceData,
+  h: Lume.Helpers,
+) => {
+  const { comp } = page;
+
+  const lines = page.source.replace(/\n$/, "").split("\n");
+
+  return (
+    <>
+      <nav class="post-navigation container content">
+        <comp.Breadcrumbs breadcrumbs={page.breadcrumbs} />
+      </nav>
+      <main class="container content gist-source-page">
+        <header>
+          <h1>{page.file_name}</h1>
+          <section class="hstack-left">
+            <span class="weak">{page.language ?? "Plain text"}</span>
+            <a href={h.url(page.file_url)}>
+              View raw
+            </a>
+            <a href={page.gist_url}>
+              View gist on GitHub
+            </a>
+          </section>
+        </header>
+
+        <div class="source-view">
+          <pre class="line-numbers" aria-hidden="true">
+            {lines.map((_, i) => (
+              <>
+                <a id={`L${i + 1}`} href={`#L${i + 1}`}>{i + 1}</a>
+                {"\n"}
+              </>
+            ))}
+          </pre>
+          <pre><code class={`language-${page.highlight_language}`}>{page.source}</code></pre>
+        </div>
+      </main>
+    </>
+  );
+};
@@ -0,0 +1,37 @@
+import { addStructuredData, pickAll, setDateModified } from "../utils.ts";
+import { collectionPageNode, gistSourceCodeNode } from "../schema.ts";
+
+export const layout: SiteLayout = "layouts/default.page.tsx";
+
+export default (
+  data: Lume.Data,
+  h: Lume.Helpers,
+) => {
+  const { comp, search, page } = data;
+
+  const gists = search.pages<GistPageData>(data.search_query, "date=desc");
+
+  setDateModified(page, pickAll("dateModified", gists));
+
+  addStructuredData(
+    page,
+    collectionPageNode(data, gists.map(gistSourceCodeNode), {
+      keywords: data.tag,
+      isPartOf: { "@id": "site-url:/gists/#CollectionPage" },
+    }),
+  );
+
+  return (
+    <main class="page container content">
+      <header>
+        <p>
+          <a href={h.url("/gists/")}>
+            &#8676; Back
+          </a>
+        </p>
+        <h1>{data.title}</h1>
+      </header>
+      <comp.GistGrid gists={gists} />
+    </main>
+  );
+};
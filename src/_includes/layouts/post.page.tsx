@@ -1,4 +1,7 @@
-import { getConfigRepositoryPathURL } from "../github.ts";
+import {
+  getConfigRepositoryCommitURL,
+  getConfigRepositoryPathURL,
+} from "../github.ts";
 
 export const layout: SiteLayout = "layouts/base.page.tsx";
 
@@ -11,9 +14,7 @@ export default (
   return (
     <>
       <nav class="post-navigation container content noprint">
-        <a href={h.url("/")}>
-          &#8676; Back
-        </a>
+        <comp.Breadcrumbs breadcrumbs={post.breadcrumbs} />
         <a
           href={getConfigRepositoryPathURL(config, post.page.sourcePath)}
           class="github-source"
@@ -79,6 +80,28 @@ export default (
 
         <footer>
           <comp.Footnotes footnotes={post.footnotes} />
+
+          {post.revisions && post.revisions.length > 0 && (
+            <details class="revisions noprint">
+              <summary>Revision history</summary>
+              <ol>
+                {post.revisions.map((revision) => (
+                  <li>
+                    <time datetime={revision.date.toISOString()}>
+                      {h.date(revision.date, "HUMAN_DATE")}
+                    </time>
+                    {" — "}
+                    <a
+                      href={getConfigRepositoryCommitURL(config, revision.hash)}
+                    >
+                      {revision.subject}
+                    </a>{" "}
+                    <code>{revision.hash.slice(0, 7)}</code>
+                  </li>
+                ))}
+              </ol>
+            </details>
+          )}
         </footer>
       </main>
 
@@ -0,0 +1,24 @@
+export default (
+  page: Lume.Data & RedirectPageData,
+  h: Lume.Helpers,
+) => {
+  return (
+    <html lang="en">
+      <head>
+        <meta charset="utf-8" />
+        <title>{page.title}</title>
+        <meta name="robots" content="noindex" />
+        <meta
+          http-equiv="refresh"
+          content={`0; url=${h.url(page.redirect_to)}`}
+        />
+        <link rel="canonical" href={h.url(page.redirect_to, true)} />
+      </head>
+      <body>
+        <p>
+          Redirecting to <a href={h.url(page.redirect_to)}>{page.title}</a>.
+        </p>
+      </body>
+    </html>
+  );
+};
@@ -0,0 +1,110 @@
+const mimeTypesByExtension: Record<string, string> = {
+  // text
+  ".c": "text/x-c",
+  ".css": "text/css",
+  ".csv": "text/csv",
+  ".go": "text/x-go",
+  ".h": "text/x-c",
+  ".hs": "text/x-haskell",
+  ".htm": "text/html",
+  ".html": "text/html",
+  ".java": "text/x-java",
+  ".js": "text/javascript",
+  ".json": "application/json",
+  ".md": "text/markdown",
+  ".mjs": "text/javascript",
+  ".py": "text/x-python",
+  ".sh": "text/x-shellscript",
+  ".svg": "image/svg+xml",
+  ".ts": "text/x-typescript",
+  ".txt": "text/plain",
+  ".wgsl": "text/wgsl",
+  ".xml": "application/xml",
+  // images
+  ".avif": "image/avif",
+  ".bmp": "image/bmp",
+  ".gif": "image/gif",
+  ".ico": "image/x-icon",
+  ".jpeg": "image/jpeg",
+  ".jpg": "image/jpeg",
+  ".png": "image/png",
+  ".tif": "image/tiff",
+  ".tiff": "image/tiff",
+  ".webp": "image/webp",
+  // audio
+  ".flac": "audio/flac",
+  ".m4a": "audio/mp4",
+  ".mid": "audio/midi",
+  ".midi": "audio/midi",
+  ".mp3": "audio/mpeg",
+  ".oga": "audio/ogg",
+  ".ogg": "audio/ogg",
+  ".opus": "audio/ogg",
+  ".wav": "audio/wav",
+  ".weba": "audio/webm",
+  // video
+  ".m4v": "video/mp4",
+  ".mov": "video/quicktime",
+  ".mp4": "video/mp4",
+  ".ogv": "video/ogg",
+  ".webm": "video/webm",
+  // 3D models
+  ".glb": "model/gltf-binary",
+  ".gltf": "model/gltf+json",
+  ".obj": "model/obj",
+  ".stl": "model/stl",
+  // fonts
+  ".otf": "font/otf",
+  ".ttf": "font/ttf",
+  ".woff": "font/woff",
+  ".woff2": "font/woff2",
+  // other binaries
+  ".bin": "application/octet-stream",
+  ".gz": "application/gzip",
+  ".pdf": "application/pdf",
+  ".wasm": "application/wasm",
+  ".zip": "application/zip",
+};
+
+const defaultMimeType = "application/octet-stream";
+
+/**
+ * The file extension wins; otherwise use the type that the gist API reports.
+ * The raw file host serves everything as `text/plain`, so its `Content-Type`
+ * is no help.
+ * Unknown files are treated as binary, so that they are copied unchanged.
+ */
+export function detectMimeType(
+  filename: string,
+  gistType: string | undefined,
+): string {
+  const extension = getExtension(filename);
+  if (extension in mimeTypesByExtension) {
+    return mimeTypesByExtension[extension];
+  }
+
+  const type = gistType?.split(";")[0].trim().toLowerCase();
+  if (type) {
+    return type;
+  }
+
+  return defaultMimeType;
+}
+
+export function isTextMimeType(mimeType: string): boolean {
+  return mimeType.startsWith("text/") ||
+    mimeType.endsWith("+json") ||
+    mimeType.endsWith("+xml") ||
+    mimeType === "application/json" ||
+    mimeType === "application/javascript" ||
+    mimeType === "application/xml";
+}
+
+export function isImageMimeType(mimeType: string): boolean {
+  return mimeType.startsWith("image/");
+}
+
+function getExtension(filename: string): string {
+  const index = filename.lastIndexOf(".");
+  return index === -1 ? "" : filename.slice(index).toLowerCase();
+}
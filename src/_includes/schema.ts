@@ -0,0 +1,82 @@
+import { getScreenshotFallback } from "./screenshots.ts";
+
+/**
+ * Builders for the structured data nodes that pages contribute to their graph.
+ * Shared nodes (Person, WebSite, Blog) live in `config.data`.
+ */
+
+export const personRef = { "@id": "site-url:/about/#Person" };
+
+export const websiteRef = { "@id": "site-url:/#WebSite" };
+
+export const blogRef = { "@id": "site-url:/#Blog" };
+
+export function blogPostingNode(post: Lume.Data): BlogPostingSD {
+  return {
+    "@id": `site-url:${post.url}#BlogPosting`,
+    "@type": "BlogPosting",
+    mainEntityOfPage: `site-url:${post.url}`,
+    url: `site-url:${post.url}`,
+    headline: post.title!,
+    description: post.description,
+    datePublished: post.date.toISOString(),
+    dateModified: post.dateModified?.toISOString(),
+    keywords: post.tags,
+    author: personRef,
+    image: post.image ? `site-url:${post.image}` : undefined,
+  };
+}
+
+export function gistSourceCodeNode(gist: GistPageData): SoftwareSourceCodeSD {
+  const images = gist.screenshots.map((screenshot) =>
+    `site-url:${getScreenshotFallback(screenshot).url}`
+  );
+
+  return {
+    "@id": `site-url:${gist.url}#SoftwareSourceCode`,
+    "@type": "SoftwareSourceCode",
+    url: `site-url:${gist.url}`,
+    name: gist.gist_title,
+    description: gist.description,
+    codeRepository: gist.gist_url,
+    programmingLanguage: gist.programming_languages,
+    dateCreated: gist.date.toISOString(),
+    dateModified: gist.dateModified.toISOString(),
+    keywords: gist.tags,
+    author: personRef,
+    image: images.length > 0 ? images : undefined,
+  };
+}
+
+export function itemListNode(items: StructuredData[]): AnySD {
+  return {
+    "@type": "ItemList",
+    numberOfItems: items.length,
+    itemListElement: items.map((item, i) => ({
+      "@type": "ListItem",
+      position: i + 1,
+      item,
+    })),
+  };
+}
+
+/**
+ * The page itself, as a collection of `items`.
+ */
+export function collectionPageNode(
+  page: Lume.Data,
+  items: StructuredData[],
+  properties: Record<string, unknown> = {},
+): AnySD {
+  return {
+    "@id": "site-url:self#CollectionPage",
+    "@type": "CollectionPage",
+    url: "site-url:self",
+    name: page.title,
+    description: page.description,
+    author: personRef,
+    isPartOf: websiteRef,
+    mainEntity: itemListNode(items),
+    ...properties,
+  };
+}
@@ -0,0 +1,118 @@
+import { isImageMimeType } from "./mime.ts";
+
+/**
+ * Gist screenshots follow a naming convention:
+ *
+ * - `screenshot-<w>x<h>[@<density>x].<ext>`: an image with aspect ratio `w:h`,
+ *   e.g. `screenshot-16x9.png` or `screenshot-1x1@2x.webp`
+ * - `screenshot-<w>x<h>.alt.txt`: the alt text for that aspect ratio
+ * - `screenshot.alt.txt`: the alt text for all aspect ratios
+ */
+const imagePattern = /^screenshot-(\d+)x(\d+)(?:@(\d+)x)?\.\w+$/;
+
+const altPattern = /^screenshot(?:-(\d+x\d+))?\.alt\.txt$/;
+
+/**
+ * Widely supported formats, preferred for `<img src>` and social cards.
+ */
+const fallbackMimeTypes = ["image/png", "image/jpeg"];
+
+declare global {
+  interface GistScreenshot {
+    ratio: string;
+    aspect: number;
+    alt?: string;
+    images: GistScreenshotImage[];
+  }
+
+  interface GistScreenshotImage {
+    url: string;
+    mime_type: string;
+    density: number;
+  }
+}
+
+export function collectScreenshots(
+  files: { name: string; url: string; mime_type: string; content: unknown }[],
+): GistScreenshot[] {
+  const alts = new Map<string, string>();
+  const screenshots = new Map<string, GistScreenshot>();
+
+  for (const file of files) {
+    const altMatch = file.name.match(altPattern);
+    if (altMatch && typeof file.content === "string") {
+      alts.set(altMatch[1] ?? "", file.content.trim());
+      continue;
+    }
+
+    const imageMatch = file.name.match(imagePattern);
+    if (!imageMatch || !isImageMimeType(file.mime_type)) {
+      continue;
+    }
+
+    const [, width, height, density] = imageMatch;
+    const ratio = `${width}x${height}`;
+
+    let screenshot = screenshots.get(ratio);
+    if (!screenshot) {
+      screenshot = {
+        ratio,
+        aspect: Number(width) / Number(height),
+        images: [],
+      };
+      screenshots.set(ratio, screenshot);
+    }
+
+    screenshot.images.push({
+      url: file.url,
+      mime_type: file.mime_type,
+      density: Number(density ?? 1),
+    });
+  }
+
+  return screenshots.values()
+    .map((screenshot) => ({
+      ...screenshot,
+      alt: alts.get(screenshot.ratio) ?? alts.get(""),
+    }))
+    .toArray()
+    .toSorted((a, b) => a.aspect - b.aspect);
+}
+
+/**
+ * The screenshot with the aspect ratio closest to `aspect`.
+ */
+export function pickScreenshot(
+  screenshots: GistScreenshot[],
+  aspect: number,
+): GistScreenshot | undefined {
+  const distance = (s: GistScreenshot) => Math.abs(Math.log(s.aspect / aspect));
+  return screenshots.toSorted((a, b) => distance(a) - distance(b))[0];
+}
+
+/**
+ * The 1x image, preferably in a widely supported format.
+ */
+export function getScreenshotFallback(
+  screenshot: GistScreenshot,
+): GistScreenshotImage {
+  const score = (image: GistScreenshotImage) =>
+    (image.density === 1 ? 0 : 2) +
+    (fallbackMimeTypes.includes(image.mime_type) ? 0 : 1);
+  return screenshot.images.toSorted((a, b) => score(a) - score(b))[0];
+}
+
+/**
+ * The images of a screenshot grouped by format, for `<picture>` sources.
+ */
+export function getScreenshotSources(
+  screenshot: GistScreenshot,
+): { type: string; images: GistScreenshotImage[] }[] {
+  const sources = Map.groupBy(screenshot.images, (image) => image.mime_type);
+  return sources.entries()
+    .map(([type, images]) => ({
+      type,
+      images: images.toSorted((a, b) => a.density - b.density),
+    }))
+    .toArray();
+}
@@ -6,6 +6,70 @@ export async function consume<T>(iterable: AsyncIterable<T>): Promise<T[]> {
   return items;
 }
 
+/**
+ * Carries the results of the calls that did succeed, in order.
+ */
+export class PartialFailureError<R> extends AggregateError {
+  constructor(errors: unknown[], message: string, readonly results: R[]) {
+    super(errors, message);
+    this.name = "PartialFailureError";
+  }
+}
+
+/**
+ * Like `Promise.all(items.map(fn))`, but with at most `concurrency` pending calls.
+ * Results keep the order of `items`. All failures are reported together.
+ */
+export async function mapConcurrently<T, R>(
+  items: T[],
+  fn: (item: T) => Promise<R>,
+  { concurrency, describe, errorMessage }: {
+    concurrency: number;
+    describe: (item: T) => string;
+    errorMessage: string;
+  },
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  const failures: { index: number; error: unknown }[] = [];
+
+  let next = 0;
+  async function worker() {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index]);
+      } catch (error) {
+        failures.push({ index, error });
+      }
+    }
+  }
+
+  const workers = Array.from(
+    { length: Math.max(1, Math.min(concurrency, items.length)) },
+    worker,
+  );
+  await Promise.all(workers);
+
+  if (failures.length > 0) {
+    failures.sort((a, b) => a.index - b.index);
+    const lines = failures.map(({ index, error }) =>
+      `  - ${describe(items[index])}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    const failed = new Set(failures.map(({ index }) => index));
+    throw new PartialFailureError(
+      failures.map(({ error }) => error),
+      `${errorMessage} (${failures.length} of ${items.length} failed):\n${
+        lines.join("\n")
+      }`,
+      results.filter((_, index) => !failed.has(index)),
+    );
+  }
+
+  return results;
+}
+
 export function sortedByDate<
   T extends { [P in K]: Date },
   K extends keyof T,
@@ -46,6 +110,21 @@ export function setDateModified(page: Lume.Page, ...components: Date[][]) {
   ]);
 }
 
+/**
+ * Adds nodes to the page's structured data graph, e.g. from a layout.
+ * Nodes with the same `@id` are merged by the structured data plugin.
+ */
+export function addStructuredData(
+  page: Lume.Page,
+  ...nodes: StructuredData[]
+) {
+  const current = page.data.structuredData ?? [];
+  page.data.structuredData = [
+    ...(Array.isArray(current) ? current : [current]),
+    ...nodes,
+  ];
+}
+
 export function datesMax(dates: Date[]): Date | undefined {
   if (dates.length === 0) {
     return;
@@ -1,4 +1,9 @@
-import { pickAll, setDateModified } from "./_includes/utils.ts";
+import {
+  addStructuredData,
+  pickAll,
+  setDateModified,
+} from "./_includes/utils.ts";
+import { blogPostingNode, collectionPageNode } from "./_includes/schema.ts";
 
 export const type = "page";
 
@@ -10,16 +15,28 @@ export const description =
   "A full archive of all the posts on this blog, organized by tags and date.";
 
 export default (data: Lume.Data, h: Lume.Helpers) => {
-  const { search, config, page } = data;
+  const { search, page } = data;
 
-  const authorRef = `${h.url("/about/", true)}#Person`;
+  const tags = search.values<string>("tags", "type=post").toSorted();
 
-  const tags = search.values<string>("tags").toSorted();
+  const tagPages = tags.map((tag) => search.page(`type=tag tag="${tag}"`)!);
 
   const posts = search.pages<Lume.Data>("type=post", "date=desc");
 
   setDateModified(page, pickAll("dateModified", posts));
 
+  addStructuredData(
+    page,
+    collectionPageNode(data, posts.map(blogPostingNode), {
+      hasPart: tagPages.map((tagPage) => ({
+        "@id": `site-url:${tagPage.url}#CollectionPage`,
+        "@type": "CollectionPage",
+        name: tagPage.title,
+        url: `site-url:${tagPage.url}`,
+      })),
+    }),
+  );
+
   return (
     <>
       <nav class="container content">
@@ -28,52 +45,22 @@ export default (data: Lume.Data, h: Lume.Helpers) => {
           <a href={h.url("/")}>&#8676; Back</a>
         </p>
       </nav>
-      <main
-        itemscope
-        itemtype="http://schema.org/CollectionPage"
-        class="container content"
-      >
+      <main class="container content">
         <header>
-          <h1 itemprop="name">{data.title}</h1>
-          <p itemprop="description">{data.description}</p>
+          <h1>{data.title}</h1>
+          <p>{data.description}</p>
         </header>
-        <aside
-          itemprop="author"
-          itemscope
-          itemtype="http://schema.org/Person"
-          itemid={authorRef}
-        >
-          <link itemprop="url" href={h.url("/about/", true)} />
-          <meta itemprop="name" content={config.me.name} />
-        </aside>
         <section>
           <h3 class="weak">Tags</h3>
           <ul class="pills">
-            {tags.toSorted().map((tag) => {
-              const tagPage = search.page(`type=tag tag="${tag}"`)!;
-              return (
-                <li
-                  itemprop="hasPart"
-                  itemscope
-                  itemtype="http://schema.org/CollectionPage"
-                >
-                  <meta itemprop="name" content={tagPage.title} />
-                  <a
-                    itemprop="url"
-                    href={h.url(tagPage.url)}
-                  >
-                    {tag}
-                  </a>
-                </li>
-              );
-            })}
+            {tagPages.map((tagPage) => (
+              <li>
+                <a href={h.url(tagPage.url)}>{tagPage.tag}</a>
+              </li>
+            ))}
           </ul>
         </section>
-        <section
-          itemprop="mainEntity"
-          itemscope
-          itemtype="http://schema.org/ItemList"
-        >
+        <section>
           {postsByYear(posts).map(([year, posts]) => (
             <article>
               <h2>{year}</h2>
@@ -83,19 +70,8 @@ export default (data: Lume.Data, h: Lume.Helpers) => {
                     <h3>{h.date(new Date(year, month), "MMMM")}</h3>
                     <ul>
                       {posts.map((post) => (
-                        <li
-                          itemprop="itemListElement"
-                          itemscope
-                          itemtype="http://schema.org/Article"
-                        >
-                          <link itemprop="author" href={authorRef} />
-                          <meta
-                            itemprop="datePublished"
-                            content={post.date.toISOString()}
-                          />
-                          <a itemprop="url" href={h.url(post.url)}>
-                            <span itemprop="headline">{post.title}</span>
-                          </a>
+                        <li>
+                          <a href={h.url(post.url)}>{post.title}</a>
                         </li>
                       ))}
                     </ul>
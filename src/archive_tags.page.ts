@@ -4,7 +4,7 @@ export default function* (
   { search }: Lume.Data,
 ): Generator<Partial<Lume.Data>> {
   // Generate a page for each tag
-  for (const tag of search.values<string>("tags")) {
+  for (const tag of search.values<string>("tags", "type=post")) {
     const title = `Posts tagged “${tag}”`;
     yield {
       url: `/archive/${tag}/`,
@@ -1,5 +1,10 @@
 import { getConfigUserGistsURL } from "./_includes/github.ts";
-import { pickAll, setDateModified } from "./_includes/utils.ts";
+import {
+  addStructuredData,
+  pickAll,
+  setDateModified,
+} from "./_includes/utils.ts";
+import { collectionPageNode, gistSourceCodeNode } from "./_includes/schema.ts";
 
 export const type = "page";
 
@@ -16,91 +21,46 @@ export default (
   data: Lume.Data,
   h: Lume.Helpers,
 ) => {
-  const { config, search, page } = data;
-
-  const authorRef = `${h.url("/about/", true)}#Person`;
+  const { comp, config, search, page } = data;
 
   const pages = search.pages<GistPageData>("type=gist", "created_at=desc");
 
+  const tags = search.values<string>("tags", "type=gist").toSorted();
+
   setDateModified(page, pickAll("dateModified", pages));
 
+  addStructuredData(
+    page,
+    collectionPageNode(data, pages.map(gistSourceCodeNode), {
+      significantLink: getConfigUserGistsURL(config),
+    }),
+  );
+
   return (
-    <main
-      itemscope
-      itemtype="http://schema.org/CollectionPage"
-      class="page container content"
-    >
-      <link itemprop="url" href={h.url("/gists/", true)} />
+    <main class="page container content">
       <header>
-        <h1 itemprop="name">{title}</h1>
+        <h1>{title}</h1>
       </header>
-      <aside
-        itemprop="author"
-        itemscope
-        itemtype="http://schema.org/Person"
-        itemid={authorRef}
-      >
-        <link itemprop="url" href={h.url("/about/", true)} />
-        <meta itemprop="name" content={config.me.name} />
-      </aside>
-      <p itemprop="description">
+      <p>
         These are some of{" "}
-        <a itemprop="significantLink" href={getConfigUserGistsURL(config)}>
-          my GitHub gists
-        </a>{" "}
+        <a href={getConfigUserGistsURL(config)}>my GitHub gists</a>{" "}
         that are viewable in the browser.
       </p>
-      <section
-        itemprop="mainEntity"
-        itemscope
-        itemtype="http://schema.org/ItemList"
-        class="gists-grid"
-      >
-        {pages.map((page) => (
-          <>
-            <article
-              itemprop="itemListElement"
-              itemscope
-              itemtype="http://schema.org/Article"
-              class="gist"
-            >
-              <link
-                itemprop="author"
-                href={authorRef}
-              />
-              <meta itemprop="description" content={page.description} />
-              <meta
-                itemprop="datePublished"
-                content={page.date.toISOString()}
-              />
-              {page.dateModified && (
-                <meta
-                  itemprop="dateModified"
-                  content={page.dateModified.toISOString()}
-                />
-              )}
-
-              <header>
-                <h3>
-                  <a itemprop="url" href={h.url(page.url)} class="flat">
-                    <span itemprop="headline">{page.gist_title}</span>
-                  </a>
-                </h3>
-              </header>
-              {page.screenshots["1x1"] && (
-                <a class="screenshot" href={h.url(page.url)}>
-                  <img
-                    itemprop="image"
-                    src={h.url(page.screenshots["1x1"])}
-                    width={200}
-                    height={200}
-                  />
+      {tags.length > 0 && (
+        <section>
+          <h3 class="weak">Tags</h3>
+          <ul class="pills">
+            {tags.map((tag) => (
+              <li>
+                <a href={h.url(search.page(`type=gist-tag tag="${tag}"`)!.url)}>
+                  {tag}
                 </a>
-              )}
-            </article>
-          </>
-        ))}
-      </section>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+      <comp.GistGrid gists={pages} />
     </main>
   );
 };
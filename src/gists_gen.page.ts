@@ -1,5 +1,37 @@
-import { getPaginatedUserGists, GitHubGist } from "./_includes/github.ts";
-import { consume } from "./_includes/utils.ts";
+import { log } from "lume/core/utils/log.ts";
+import {
+  fetchGistRawFile,
+  getPaginatedUserGists,
+  GitHubGist,
+  handleGitHubError,
+} from "./_includes/github.ts";
+import {
+  consume,
+  mapConcurrently,
+  PartialFailureError,
+} from "./_includes/utils.ts";
+import { detectMimeType, isTextMimeType } from "./_includes/mime.ts";
+import {
+  GIST_SLUGS_PATH,
+  updateGistSlugHistory,
+} from "./_includes/gist_slugs.ts";
+import {
+  collectScreenshots,
+  getScreenshotFallback,
+  pickScreenshot,
+} from "./_includes/screenshots.ts";
+import { gistSourceCodeNode } from "./_includes/schema.ts";
+
+/**
+ * Path segments under `/gists/` that belong to other pages: `/gists/id/<id>/`
+ * and `/gists/tags/<tag>/` (see `gists_tags.page.ts`).
+ */
+const reservedSlugs = new Set(["id", "tags"]);
+
+/**
+ * Open Graph recommends 1.91:1 images.
+ */
+const socialImageAspect = 1.91;
 
 declare global {
   interface Gist {
@@ -7,6 +39,7 @@ declare global {
     github_url: string;
     title: string;
     description?: string;
+    tags: string[];
     files: GistFile[];
     created_at: Date;
     updated_at: Date;
@@ -15,6 +48,7 @@ declare global {
   interface GistFile {
     name: string;
     language?: string;
+    mime_type: string;
     content: Uint8Array | string;
     size: number;
   }
@@ -31,7 +65,9 @@ declare global {
     gist_id: string;
     gist_title: string;
     gist_url: string;
-    screenshots: GistScreenshots;
+    screenshots: GistScreenshot[];
+    tags: string[];
+    programming_languages: string[];
   }
 
   interface GistFileData {
@@ -42,35 +78,91 @@ declare global {
     dateModified: Date;
     gist_id: string;
     is_displayable: boolean;
+    demo_policy?: GistDemoPolicy;
+    mime_type: string;
     content: Uint8Array | string;
   }
 
-  interface GistScreenshots {
-    "1x1"?: string;
+  interface GistSourceData extends Partial<Lume.Data> {
+    type: "gist-source";
+    url: string;
+    layout: SiteLayout;
+    title: string;
+    date: Date;
+    dateModified: Date;
+    // specific
+    gist_id: string;
+    gist_title: string;
+    gist_url: string;
+    file_name: string;
+    file_url: string;
+    language?: string;
+    highlight_language: string;
+    source: string;
+  }
+
+  /**
+   * A gist file under a previous slug. Only HTML pages can redirect, so other
+   * files are served at their old URL too.
+   */
+  interface GistFileCopyData {
+    type: "gist-file-copy";
+    url: string;
+    content: Uint8Array | string;
+  }
+
+  interface RedirectPageData extends Partial<Lume.Data> {
+    type: "redirect";
+    url: string;
+    layout: SiteLayout;
+    title: string;
+    is_redirect: true;
+    redirect_to: string;
   }
 }
 
 export default async function* (
   { config }: Lume.Data,
   h: Lume.Helpers,
-): AsyncGenerator<GistPageData | GistFileData> {
-  const gists = await consume(getDisplayableGists(config));
+): AsyncGenerator<
+  | GistPageData
+  | GistFileData
+  | GistSourceData
+  | GistFileCopyData
+  | RedirectPageData
+> {
+  const gists = await getDisplayableGists(config);
+
+  const currentSlugs = Object.fromEntries(
+    gists.map((gist) => [gist.id, getGistSlug(h.slugify(gist.title))]),
+  );
+
+  const { history: slugHistory, added: addedSlugs } =
+    await updateGistSlugHistory(currentSlugs);
+
+  if (addedSlugs.length > 0) {
+    log.warn(
+      `[gists] New gist slugs: ${addedSlugs.join(", ")}\n` +
+        `Commit ${GIST_SLUGS_PATH} so that they redirect after a rename.`,
+    );
+  }
+
+  const takenSlugs = new Set(Object.values(currentSlugs));
 
   for (const gist of gists) {
-    const basename = h.slugify(gist.title);
+    const basename = currentSlugs[gist.id];
+    const demoPolicy = getDemoPolicy(config, gist);
     const gistUrl = `/gists/${basename}/`;
 
-    const screenshots: GistScreenshots = {};
+    const screenshots = collectScreenshots(
+      gist.files.map((file) => ({ ...file, url: `${gistUrl}${file.name}` })),
+    );
+
+    const socialScreenshot = pickScreenshot(screenshots, socialImageAspect);
 
     for (const file of gist.files) {
       const fileUrl = `${gistUrl}${file.name}`;
 
-      switch (file.name) {
-        case "screenshot-1x1.png":
-          screenshots["1x1"] = fileUrl;
-          break;
-      }
-
       yield {
         type: "gist-file",
         url: fileUrl,
@@ -78,17 +170,100 @@ export default async function* (
         date: gist.created_at,
         dateModified: gist.updated_at,
         gist_id: gist.id,
-        is_displayable: file.name.endsWith(".html"),
+        is_displayable: isDisplayable(file),
+        demo_policy: isDisplayable(file) ? demoPolicy : undefined,
+        mime_type: file.mime_type,
         content: file.content,
       };
+
+      if (typeof file.content === "string") {
+        yield {
+          type: "gist-source",
+          url: `${gistUrl}source/${file.name}/`,
+          layout: "layouts/gist_source.page.tsx",
+          title:
+            `${file.name}${config.titleSeparator}${gist.title}${config.titleSeparator}Gists`,
+          date: gist.created_at,
+          dateModified: gist.updated_at,
+          // specific
+          gist_id: gist.id,
+          gist_title: gist.title,
+          gist_url: gist.github_url,
+          file_name: file.name,
+          file_url: fileUrl,
+          language: file.language,
+          highlight_language: getHighlightLanguage(file),
+          source: file.content,
+          breadcrumb_title: file.name,
+        };
+      }
     }
 
+    // Stable permalink
     yield {
+      type: "redirect",
+      url: `/gists/id/${gist.id}/`,
+      layout: "layouts/redirect.page.tsx",
+      title: gist.title,
+      is_redirect: true,
+      redirect_to: gistUrl,
+    };
+
+    // Previous titles
+    for (const slug of slugHistory[gist.id] ?? []) {
+      if (takenSlugs.has(slug) || reservedSlugs.has(slug)) {
+        continue;
+      }
+
+      const oldGistUrl = `/gists/${slug}/`;
+
+      yield {
+        type: "redirect",
+        url: oldGistUrl,
+        layout: "layouts/redirect.page.tsx",
+        title: gist.title,
+        is_redirect: true,
+        redirect_to: gistUrl,
+      };
+
+      for (const file of gist.files) {
+        if (file.mime_type === "text/html") {
+          yield {
+            type: "redirect",
+            url: `${oldGistUrl}${file.name}`,
+            layout: "layouts/redirect.page.tsx",
+            title: `${file.name}${config.titleSeparator}${gist.title}`,
+            is_redirect: true,
+            redirect_to: `${gistUrl}${file.name}`,
+          };
+        } else {
+          yield {
+            type: "gist-file-copy",
+            url: `${oldGistUrl}${file.name}`,
+            content: file.content,
+          };
+        }
+
+        if (typeof file.content === "string") {
+          yield {
+            type: "redirect",
+            url: `${oldGistUrl}source/${file.name}/`,
+            layout: "layouts/redirect.page.tsx",
+            title: `${file.name}${config.titleSeparator}${gist.title}`,
+            is_redirect: true,
+            redirect_to: `${gistUrl}source/${file.name}/`,
+          };
+        }
+      }
+    }
+
+    const gistPage: GistPageData = {
       basename: basename,
       url: gistUrl,
       type: "gist",
       layout: "layouts/gist.page.tsx",
       title: `${gist.title}${config.titleSeparator}Gists`,
+      breadcrumb_title: gist.title,
       description: gist.description,
       date: gist.created_at,
       dateModified: gist.updated_at,
@@ -97,60 +272,126 @@ export default async function* (
       gist_title: gist.title,
       gist_url: gist.github_url,
       screenshots: screenshots,
+      tags: gist.tags,
+      programming_languages: getProgrammingLanguages(gist),
+      social_image: socialScreenshot && {
+        url: getScreenshotFallback(socialScreenshot).url,
+        aspect: socialScreenshot.aspect,
+        alt: socialScreenshot.alt,
+      },
+    };
+
+    yield {
+      ...gistPage,
       // structured data
       structuredData: {
-        "@type": "Article",
-        mainEntityOfPage: "site-url:self",
-        url: "site-url:self",
-        headline: gist.title,
+        ...gistSourceCodeNode(gistPage),
         author: "lume-data:config.data.author",
-        datePublished: gist.created_at.toISOString(),
-        dateModified: gist.updated_at.toISOString(),
-        image: screenshots["1x1"] && h.url(screenshots["1x1"], true),
-      } satisfies ArticleSD,
+      },
     };
   }
 }
 
-async function* getDisplayableGists(config: SiteConfig): AsyncGenerator<Gist> {
-  for await (const response of getPaginatedUserGists(config.github.username)) {
-    for (const gist of response.data) {
-      if (hasHideTag(gist)) {
-        continue;
-      }
+async function getDisplayableGists(config: SiteConfig): Promise<Gist[]> {
+  const candidates = [];
 
-      if (!containsDisplayableFiles(gist)) {
-        continue;
-      }
+  try {
+    for await (
+      const response of getPaginatedUserGists(config.github.username)
+    ) {
+      for (const gist of response.data) {
+        if (hasHideTag(gist)) {
+          continue;
+        }
 
-      const [title, description] = gist.description?.split(" // ", 2) ?? [];
+        if (!containsDisplayableFiles(gist)) {
+          continue;
+        }
 
-      if (!title || !description) {
-        // Skip gists that don't follow the title // description pattern
-        continue;
-      }
+        const [title, description] = gist.description?.split(" // ", 2) ?? [];
 
-      const files = await consume(loadGistFiles(gist));
+        if (!title || !description) {
+          // Skip gists that don't follow the title // description pattern
+          continue;
+        }
 
-      yield {
+        candidates.push({ gist, title, description });
+      }
+    }
+  } catch (error) {
+    handleGitHubError(config, error);
+  }
+
+  try {
+    return await mapConcurrently(
+      candidates,
+      async ({ gist, title, description }) => ({
         id: gist.id,
         github_url: gist.html_url,
         title: title || gist.id,
-        description: description || undefined,
-        files: files,
+        description: stripHashtags(description) || undefined,
+        tags: parseHashtags(description),
+        files: await consume(loadGistFiles(gist)),
         created_at: new Date(gist.created_at),
         updated_at: new Date(gist.updated_at),
-      };
+      }),
+      {
+        concurrency: config.github.concurrency,
+        describe: ({ gist, title }) => `gist ${gist.id} (${title})`,
+        errorMessage: "Failed to load gists",
+      },
+    );
+  } catch (error) {
+    if (!(error instanceof PartialFailureError)) {
+      throw error;
     }
+    handleGitHubError(config, error);
+    return error.results;
   }
 }
 
+const hashtagPattern = /(?:^|\s)#([\w-]+)/g;
+
+/**
+ * E.g. "A WebGPU demo #webgpu #graphics" -> ["webgpu", "graphics"]
+ */
+function parseHashtags(description: string): string[] {
+  const tags = description.matchAll(hashtagPattern)
+    .map((match) => match[1].toLowerCase());
+  return [...new Set(tags)];
+}
+
+function stripHashtags(description: string): string {
+  return description.replaceAll(hashtagPattern, "").trim();
+}
+
 function hasHideTag(
   gist: GitHubGist,
 ) {
   return gist.description?.startsWith("[hide]") ?? false;
 }
 
+/**
+ * E.g. a gist titled "Tags" lives at `/gists/tags-gist/`.
+ */
+function getGistSlug(slug: string): string {
+  return reservedSlugs.has(slug) ? `${slug}-gist` : slug;
+}
+
+function isDisplayable(file: GistFile) {
+  return file.name.endsWith(".html");
+}
+
+function getDemoPolicy(config: SiteConfig, gist: Gist): GistDemoPolicy {
+  const defaults = config.gists.demoPolicy;
+  const overrides = config.gists.demoPolicyOverrides[gist.id] ?? {};
+  return {
+    sandbox: overrides.sandbox ?? defaults.sandbox,
+    allow: overrides.allow ?? defaults.allow,
+    csp: { ...defaults.csp, ...overrides.csp },
+  };
+}
+
 function containsDisplayableFiles(
   gist: GitHubGist,
 ) {
@@ -165,25 +406,58 @@ async function* loadGistFiles(gist: GitHubGist): AsyncGenerator<GistFile> {
       continue;
     }
 
-    const response = await fetch(file.raw_url);
+    const response = await fetchGistRawFile(gist, file.raw_url);
+
+    if (!response.ok) {
+      throw new Error(
+        `Failed to fetch ${filename}: ${response.status} ${response.statusText}`,
+      );
+    }
+
+    const mimeType = detectMimeType(filename, file.type);
 
     let content;
 
-    if (isBinaryFile(filename)) {
-      content = new Uint8Array(await response.arrayBuffer());
-    } else {
+    if (isTextMimeType(mimeType)) {
       content = await response.text();
+    } else {
+      content = new Uint8Array(await response.arrayBuffer());
     }
 
     yield {
       name: filename,
       language: file.language,
+      mime_type: mimeType,
       content: content,
       size: file.size ?? 0,
     };
   }
 }
 
-function isBinaryFile(filename: string) {
-  return filename.endsWith(".png");
+/**
+ * Maps GitHub's language names to the highlight.js languages registered in `_config.ts`.
+ */
+const highlightLanguages: Record<string, string> = {
+  "Assembly": "x86asm",
+  "C": "c",
+  "CSS": "css",
+  "Go": "go",
+  "HTML": "xml",
+  "Haskell": "haskell",
+  "JSON": "json",
+  "Java": "java",
+  "JavaScript": "javascript",
+  "Python": "python",
+  "Shell": "bash",
+  "TypeScript": "typescript",
+};
+
+function getProgrammingLanguages(gist: Gist): string[] {
+  const languages = gist.files.map((file) => file.language)
+    .filter((language) => language !== undefined);
+  return [...new Set(languages)];
+}
+
+function getHighlightLanguage(file: GistFile): string {
+  return highlightLanguages[file.language ?? ""] ?? "plaintext";
 }
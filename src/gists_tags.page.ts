@@ -0,0 +1,18 @@
+export const layout: SiteLayout = "layouts/gist_tag_result.page.tsx";
+
+export default function* (
+  { search }: Lume.Data,
+): Generator<Partial<Lume.Data>> {
+  // Generate a page for each gist tag
+  // Gists can't take the `tags` slug; see `reservedSlugs` in `gists_gen.page.ts`
+  for (const tag of search.values<string>("tags", "type=gist")) {
+    const title = `Gists tagged “${tag}”`;
+    yield {
+      url: `/gists/tags/${tag}/`,
+      type: "gist-tag",
+      search_query: `type=gist '${tag}'`,
+      title,
+      tag,
+    };
+  }
+}
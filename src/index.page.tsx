@@ -1,41 +1,38 @@
-import { pickAll, setDateModified } from "./_includes/utils.ts";
+import {
+  addStructuredData,
+  pickAll,
+  setDateModified,
+} from "./_includes/utils.ts";
+import { blogPostingNode } from "./_includes/schema.ts";
 
 export const layout: SiteLayout = "layouts/default.page.tsx";
 
 export const title = "Gabriel Garcia Torrico";
 
-export const structuredData: WebSiteSD = {
-  "@type": "WebSite",
-  name: "lume-data:config.site.name",
-  url: "site-url:self",
-  description: "lume-data:config.site.description",
-  author: "lume-data:config.data.author",
-};
+export const breadcrumb_title = "Home";
 
 export default (data: Lume.Data, h: Lume.Helpers) => {
   const { search, config, page } = data;
 
-  const authorRef = `${h.url("/about/", true)}#Person`;
-
   const posts = search.pages<Lume.Data>("type=post", "date=desc");
 
   setDateModified(page, pickAll("dateModified", posts));
 
+  addStructuredData(
+    page,
+    config.data.website,
+    config.data.author,
+    { ...config.data.blog, blogPost: posts.map(blogPostingNode) },
+  );
+
   return (
     <>
-      <main
-        itemscope
-        itemtype="http://schema.org/Person"
-        itemid={authorRef}
-        class="container content"
-      >
-        <link itemprop="url" href={h.url("/about/", true)} />
+      <main class="container content">
         <header>
-          <h1 itemprop="name">{config.me.name}</h1>
+          <h1>{config.me.name}</h1>
         </header>
-        <section itemprop="description" class="bio">
+        <section class="bio">
           <img
-            itemprop="image"
             class="avatar"
             alt={config.me.name}
             src={h.url("/public/resources/me-2018.jpeg")}
@@ -46,55 +43,27 @@ export default (data: Lume.Data, h: Lume.Helpers) => {
             I'm a software engineer based in Amsterdam who's been writing code
             for 20 years. I am primarily a backend engineer, but I have my roots
             in web development. For more details, refer to{" "}
-            <a itemprop="sameAs" href="https://www.linkedin.com/in/ggarciat/">
+            <a href="https://www.linkedin.com/in/ggarciat/">
               my LinkedIn profile
             </a>.
           </p>
           <p>
             You can find my programming stuff on{" "}
-            <a itemprop="sameAs" href="https://github.com/garciat">
+            <a href="https://github.com/garciat">
               GitHub
             </a>. If you wish to contact me directly via email, my email address
             is <code>gabriel</code> at this domain name.
           </p>
         </section>
       </main>
-      <section
-        itemscope
-        itemtype="http://schema.org/Blog"
-        class="container content"
-      >
+      <section class="container content">
         <header>
           <h2>Posts</h2>
         </header>
         <ul class="post-index">
           {posts.map((post) => (
-            <li
-              itemprop="blogPost"
-              itemscope
-              itemtype="http://schema.org/BlogPosting"
-              itemid={`${h.url(post.url, true)}#BlogPosting`}
-              class="post-index-item"
-            >
-              <link
-                itemprop="author"
-                href={authorRef}
-              />
-              <meta itemprop="description" content={post.description} />
-              {post.tags && (
-                post.tags.map((tag) => (
-                  <meta itemprop="keywords" content={tag} />
-                ))
-              )}
-              {post.dateModified && (
-                <meta
-                  itemprop="dateModified"
-                  content={post.dateModified.toISOString()}
-                />
-              )}
-
+            <li class="post-index-item">
               <time
-                itemprop="datePublished"
                 class="col1 weak"
                 datetime={post.date.toISOString()}
               >
@@ -106,14 +75,11 @@ export default (data: Lume.Data, h: Lume.Helpers) => {
               {/* TODO(grids): had to wrap this so that the anchor does not span the whole column */}
               <span>
                 <a
-                  itemprop="url"
                   class="col2 vt-post-title"
                   id={post.basename}
                   href={h.url(post.url)}
                 >
-                  <span itemprop="headline">
-                    {post.title}
-                  </span>
+                  {post.title}
                 </a>
               </span>
             </li>
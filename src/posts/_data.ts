@@ -2,18 +2,23 @@ export const layout: SiteLayout = "layouts/post.page.tsx";
 
 export const type = "post";
 
+export const breadcrumb_parents = ["/", "/archive/"];
+
 export const mergedKeys = { structuredData: "object" };
 
 export const structuredData: BlogPostingSD = {
+  "@id": "site-url:self#BlogPosting",
   "@type": "BlogPosting",
   mainEntityOfPage: "site-url:self",
   url: "site-url:self",
   headline: "lume-data:title",
   datePublished: "lume-data:date",
-  dateModified: "lume-data:dateModified",
+  dateModified: "lume-data:dateModified ?? date",
   description: "lume-data:description",
   keywords: "lume-data:tags",
   timeRequired: "lume-data:readingInfo.minutes | iso8601minutes",
   wordCount: "lume-data:readingInfo.words",
   author: "lume-data:config.data.author",
+  image: "lume-data:image? | url",
+  isPartOf: { "@id": "site-url:/#Blog" },
 };
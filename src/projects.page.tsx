@@ -1,15 +1,22 @@
 import {
+  fetchGitHubJSON,
   getConfigPagesURL,
+  getConfigWorkflowRunRequestURL,
   getPaginatedUserRepos,
   getRepositoryReadmeTitle,
+  getWorkflowRunStartedAtQuery,
   GitHubRepository,
+  handleGitHubError,
 } from "./_includes/github.ts";
 import {
-  consume,
+  addStructuredData,
+  mapConcurrently,
+  PartialFailureError,
   pickAll,
   setDateModified,
   sortedByDate,
 } from "./_includes/utils.ts";
+import { collectionPageNode, personRef } from "./_includes/schema.ts";
 
 export const type = "page";
 
@@ -25,7 +32,10 @@ interface Project {
   name: string;
   github_url: string;
   homepage: string;
+  has_homepage: boolean;
   description?: string;
+  language?: string;
+  license_url?: string;
   created_at: Date;
   updated_at: Date;
   is_archived: boolean;
@@ -39,7 +49,8 @@ interface ProjectViewProps {
 export default async (data: Lume.Data, { date }: Lume.Helpers) => {
   const { comp, config, page } = data;
 
-  const allProjects = await consume(getGitHubProjects(config));
+  const allProjects = await getGitHubProjects(config);
+  const siteBuildRuns = await getSiteBuildRuns(config);
 
   const [projects, projectsArchived] = [
     allProjects.filter((project) => !project.is_archived),
@@ -48,6 +59,17 @@ export default async (data: Lume.Data, { date }: Lume.Helpers) => {
 
   setDateModified(page, pickAll("updated_at", allProjects));
 
+  addStructuredData(
+    page,
+    collectionPageNode(
+      data,
+      [
+        ...sortedByDate("created_at", projects),
+        ...sortedByDate("created_at", projectsArchived),
+      ].map(projectSourceCodeNode),
+    ),
+  );
+
   const ProjectView = (
     { project, hideUpdated = false }: ProjectViewProps,
   ) => (
@@ -93,6 +115,15 @@ export default async (data: Lume.Data, { date }: Lume.Helpers) => {
     <main class="container content">
       <section>
         <h1>{title}</h1>
+        <p>
+          <comp.BadgeDynamic
+            source={siteBuildRuns}
+            query={getWorkflowRunStartedAtQuery()}
+            label="site built"
+            logo="githubactions"
+            format={(value) => date(new Date(String(value)), "HUMAN_DATE")!}
+          />
+        </p>
         {sortedByDate("created_at", projects).map((project) => (
           <ProjectView project={project} />
         ))}
@@ -112,22 +143,99 @@ function isGitHubProject(repo: GitHubRepository): boolean {
   return repo.topics?.includes("showcase-project") ?? false;
 }
 
-async function* getGitHubProjects(config: SiteConfig): AsyncGenerator<Project> {
-  for await (const response of getPaginatedUserRepos(config.github.username)) {
-    for (const repo of response.data) {
-      if (isGitHubProject(repo)) {
+function projectSourceCodeNode(project: Project): SoftwareSourceCodeSD {
+  return {
+    "@id": `${project.github_url}#SoftwareSourceCode`,
+    "@type": "SoftwareSourceCode",
+    name: project.name,
+    description: project.description,
+    url: project.github_url,
+    codeRepository: project.github_url,
+    programmingLanguage: project.language,
+    dateCreated: project.created_at.toISOString(),
+    dateModified: project.updated_at.toISOString(),
+    license: project.license_url,
+    author: personRef,
+    targetProduct: project.has_homepage
+      ? {
+        "@type": "SoftwareApplication",
+        name: project.name,
+        url: project.homepage,
+      }
+      : undefined,
+  };
+}
+
+/**
+ * GitHub reports `NOASSERTION` for licenses it can't identify.
+ */
+function getLicenseURL(repo: GitHubRepository): string | undefined {
+  const spdxId = repo.license?.spdx_id;
+  if (!spdxId || spdxId === "NOASSERTION") {
+    return undefined;
+  }
+  return `https://spdx.org/licenses/${spdxId}.html`;
+}
+
+/**
+ * The latest completed run of the workflow that builds this site.
+ */
+async function getSiteBuildRuns(config: SiteConfig): Promise<unknown> {
+  try {
+    return await fetchGitHubJSON(getConfigWorkflowRunRequestURL(config));
+  } catch (error) {
+    handleGitHubError(config, error);
+    return undefined;
+  }
+}
+
+async function getGitHubProjects(config: SiteConfig): Promise<Project[]> {
+  const repos = [];
+
+  try {
+    for await (
+      const response of getPaginatedUserRepos(config.github.username)
+    ) {
+      for (const repo of response.data) {
+        if (isGitHubProject(repo)) {
+          repos.push(repo);
+        }
+      }
+    }
+  } catch (error) {
+    handleGitHubError(config, error);
+  }
+
+  try {
+    return await mapConcurrently(
+      repos,
+      async (repo) => {
         const readmeTitle = await getRepositoryReadmeTitle(repo);
 
-        yield {
+        return {
           name: readmeTitle ?? repo.name,
           github_url: repo.html_url,
           homepage: repo.homepage || getConfigPagesURL(config, repo.name),
+          has_homepage: Boolean(repo.homepage) || (repo.has_pages ?? false),
           description: repo.description ?? undefined,
+          language: repo.language ?? undefined,
+          license_url: getLicenseURL(repo),
           created_at: new Date(repo.created_at ?? 0),
           updated_at: new Date(repo.updated_at ?? repo.created_at ?? 0),
           is_archived: repo.topics?.includes("archived") ?? false,
         };
-      }
+      },
+      {
+        concurrency: config.github.concurrency,
+        describe: (repo) => `repository ${repo.full_name}`,
+        errorMessage: "Failed to load projects",
+      },
+    );
+  } catch (error) {
+    if (!(error instanceof PartialFailureError)) {
+      throw error;
     }
+    handleGitHubError(config, error);
+    return error.results;
   }
 }
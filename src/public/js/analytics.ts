@@ -0,0 +1,98 @@
+/**
+ * Loads the analytics provider configured in `config.analytics`, unless the
+ * reader opted out through Do Not Track, Global Privacy Control or the consent
+ * banner.
+ */
+
+type AnalyticsProvider =
+  | { type: "ga4"; measurementId: string }
+  | { type: "endpoint"; url: string }
+  | { type: "none" };
+
+interface AnalyticsConfig {
+  provider: AnalyticsProvider;
+  consent: boolean;
+}
+
+type Consent = "granted" | "denied";
+
+const consentStorageKey = "analytics-consent";
+
+const gtagGlobals = globalThis as typeof globalThis & {
+  dataLayer?: unknown[];
+};
+
+function isTrackingDisallowed(): boolean {
+  const { globalPrivacyControl } = navigator as Navigator & {
+    globalPrivacyControl?: boolean;
+  };
+  return navigator.doNotTrack === "1" || globalPrivacyControl === true;
+}
+
+/**
+ * gtag.js expects the `arguments` object itself, not an array.
+ */
+function gtag(..._args: unknown[]) {
+  (gtagGlobals.dataLayer ??= []).push(arguments);
+}
+
+function readConsent(): Consent | null {
+  const value = localStorage.getItem(consentStorageKey);
+  return value === "granted" || value === "denied" ? value : null;
+}
+
+function loadProvider(provider: AnalyticsProvider) {
+  switch (provider.type) {
+    case "ga4": {
+      const script = document.createElement("script");
+      script.async = true;
+      script.src =
+        `https://www.googletagmanager.com/gtag/js?id=${provider.measurementId}`;
+      document.head.append(script);
+
+      gtag("js", new Date());
+      gtag("config", provider.measurementId);
+      break;
+    }
+    case "endpoint":
+      navigator.sendBeacon(
+        provider.url,
+        JSON.stringify({
+          path: location.pathname,
+          referrer: document.referrer,
+        }),
+      );
+      break;
+    case "none":
+      break;
+  }
+}
+
+function askForConsent(banner: HTMLElement, onGranted: () => void) {
+  banner.hidden = false;
+  banner.querySelectorAll<HTMLButtonElement>("button").forEach((button) => {
+    button.onclick = () => {
+      const consent = button.value as Consent;
+      localStorage.setItem(consentStorageKey, consent);
+      banner.hidden = true;
+      if (consent === "granted") {
+        onGranted();
+      }
+    };
+  });
+}
+
+const configElement = document.getElementById("analytics-config");
+
+if (configElement && !isTrackingDisallowed()) {
+  const config: AnalyticsConfig = JSON.parse(configElement.textContent ?? "");
+  const banner = document.getElementById("analytics-consent");
+
+  if (!config.consent) {
+    loadProvider(config.provider);
+  } else if (readConsent() === "granted") {
+    loadProvider(config.provider);
+  } else if (readConsent() === null && banner) {
+    askForConsent(banner, () => loadProvider(config.provider));
+  }
+}
@@ -0,0 +1,229 @@
+/**
+ * Reader preferences, applied before first paint.
+ * This runs as a render-blocking script at the start of `<body>`.
+ */
+
+enum ColorScheme {
+  system = "◐ System theme",
+  dark = "☾ Dark theme",
+  light = "☀︎ Light theme",
+}
+
+enum FontSize {
+  small = "Small text",
+  medium = "Medium text",
+  large = "Large text",
+}
+
+enum LineWidth {
+  narrow = "Narrow lines",
+  medium = "Medium lines",
+  wide = "Wide lines",
+}
+
+enum Motion {
+  system = "System motion",
+  reduce = "Reduced motion",
+}
+
+interface Preferences {
+  colorScheme: keyof typeof ColorScheme;
+  codeTheme: string;
+  fontSize: keyof typeof FontSize;
+  lineWidth: keyof typeof LineWidth;
+  motion: keyof typeof Motion;
+}
+
+type PreferenceKey = keyof Preferences;
+
+interface PreferenceDefinition {
+  storageKey: string;
+  label: string;
+  /**
+   * Option values and their labels, in display order.
+   */
+  options(): [string, string][];
+  defaultValue(): string;
+}
+
+const definitions: Record<PreferenceKey, PreferenceDefinition> = {
+  colorScheme: {
+    storageKey: "color-scheme",
+    label: "Color scheme",
+    options: () => Object.entries(ColorScheme),
+    defaultValue: () => "system",
+  },
+  codeTheme: {
+    storageKey: "code-theme",
+    label: "Code theme",
+    options: () => CodeThemes.all(),
+    defaultValue: () => CodeThemes.all()[0]?.[0] ?? "",
+  },
+  fontSize: {
+    storageKey: "font-size",
+    label: "Font size",
+    options: () => Object.entries(FontSize),
+    defaultValue: () => "medium",
+  },
+  lineWidth: {
+    storageKey: "line-width",
+    label: "Line width",
+    options: () => Object.entries(LineWidth),
+    defaultValue: () => "medium",
+  },
+  motion: {
+    storageKey: "motion",
+    label: "Motion",
+    options: () => Object.entries(Motion),
+    defaultValue: () => "system",
+  },
+};
+
+const PreferenceKeysAll = Object.keys(definitions) as PreferenceKey[];
+
+function parsePreference<K extends PreferenceKey>(
+  key: K,
+  value: string | null,
+): Preferences[K] {
+  const { options, defaultValue } = definitions[key];
+  const valid = options().some(([option]) => option === value);
+  return (valid ? value! : defaultValue()) as Preferences[K];
+}
+
+class CodeThemes {
+  /**
+   * The highlight.js stylesheets rendered by the base layout, one per theme and
+   * color scheme.
+   */
+  static stylesheets(): HTMLLinkElement[] {
+    return [
+      ...document.querySelectorAll<HTMLLinkElement>(
+        'link[rel="stylesheet"][data-code-theme]',
+      ),
+    ];
+  }
+
+  static all(): [string, string][] {
+    const themes = new Map<string, string>();
+    for (const element of this.stylesheets()) {
+      const { codeTheme, codeThemeName } = element.dataset;
+      themes.set(codeTheme!, codeThemeName ?? codeTheme!);
+    }
+    return [...themes];
+  }
+}
+
+class UserPreferences {
+  /**
+   * Load the user's preferences from local storage and apply them.
+   */
+  static load(): Preferences {
+    const preferences = this.read();
+    this.display(preferences);
+    return preferences;
+  }
+
+  static read(): Preferences {
+    return Object.fromEntries(
+      PreferenceKeysAll.map((key) => [
+        key,
+        parsePreference(key, localStorage.getItem(definitions[key].storageKey)),
+      ]),
+    ) as unknown as Preferences;
+  }
+
+  static write<K extends PreferenceKey>(key: K, value: Preferences[K]) {
+    localStorage.setItem(definitions[key].storageKey, value);
+  }
+
+  static display(preferences: Preferences) {
+    const { colorScheme, codeTheme, fontSize, lineWidth, motion } = preferences;
+
+    Object.keys(ColorScheme).forEach((v) => document.body.classList.remove(v));
+    document.body.classList.add(colorScheme);
+
+    CodeThemes.stylesheets().forEach((element) => {
+      const { theme, media } = element.dataset;
+      if (element.dataset["codeTheme"] !== codeTheme) {
+        element.disabled = true;
+      } else if (colorScheme === "system") {
+        element.disabled = false;
+        element.media = media ?? "";
+      } else {
+        element.disabled = theme !== colorScheme;
+        element.media = "";
+      }
+    });
+
+    const root = document.documentElement;
+    root.dataset["fontSize"] = fontSize;
+    root.dataset["lineWidth"] = lineWidth;
+    root.dataset["motion"] = motion;
+  }
+
+  static isStorageKey(key: string): boolean {
+    return PreferenceKeysAll.some((k) => definitions[k].storageKey === key);
+  }
+}
+
+/**
+ * `<reader-preferences></reader-preferences>`
+ *
+ * A select for each preference.
+ */
+class ReaderPreferencesElement extends HTMLElement {
+  connectedCallback() {
+    this.replaceChildren(
+      ...PreferenceKeysAll.map((key) => this.#createSelect(key)),
+    );
+    this.refresh(UserPreferences.read());
+  }
+
+  refresh(preferences: Preferences) {
+    for (const key of PreferenceKeysAll) {
+      const select = this.querySelector<HTMLSelectElement>(
+        `select[name="${key}"]`,
+      );
+      if (select) {
+        select.value = preferences[key];
+      }
+    }
+  }
+
+  #createSelect(key: PreferenceKey): HTMLSelectElement {
+    const select = document.createElement("select");
+    select.name = key;
+    select.setAttribute("aria-label", definitions[key].label);
+
+    for (const [value, label] of definitions[key].options()) {
+      const option = document.createElement("option");
+      option.value = value;
+      option.text = label;
+      select.appendChild(option);
+    }
+
+    select.onchange = () => {
+      UserPreferences.write(key, parsePreference(key, select.value));
+      UserPreferences.display(UserPreferences.read());
+    };
+
+    return select;
+  }
+}
+
+if ("document" in globalThis) {
+  UserPreferences.load();
+
+  customElements.define("reader-preferences", ReaderPreferencesElement);
+
+  // Keep other open tabs in sync
+  globalThis.addEventListener("storage", (event) => {
+    if (event.key !== null && !UserPreferences.isStorageKey(event.key)) {
+      return;
+    }
+
+    const preferences = UserPreferences.load();
+    document.querySelectorAll<ReaderPreferencesElement>("reader-preferences")
+      .forEach((element) => element.refresh(preferences));
+  });
+}
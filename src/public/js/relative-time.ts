@@ -0,0 +1,83 @@
+const second = 1000;
+const minute = 60 * second;
+const hour = 60 * minute;
+const day = 24 * hour;
+
+/**
+ * From largest to smallest; a date is described in the largest unit that fits.
+ */
+const units = [
+  { unit: "year", ms: 365 * day },
+  { unit: "month", ms: 30 * day },
+  { unit: "week", ms: 7 * day },
+  { unit: "day", ms: day },
+  { unit: "hour", ms: hour },
+  { unit: "minute", ms: minute },
+  { unit: "second", ms: second },
+] as const;
+
+const locale = "en";
+
+function pickUnit(elapsed: number) {
+  return units.find(({ ms }) => Math.abs(elapsed) >= ms) ?? units.at(-1)!;
+}
+
+/**
+ * E.g. "3 days ago", "in 2 hours", "yesterday".
+ * Shared with the `RelativeTime` component, which renders the initial text.
+ */
+export function formatRelativeTime(date: Date, now = new Date()): string {
+  const elapsed = date.getTime() - now.getTime();
+  const { unit, ms } = pickUnit(elapsed);
+  return new Intl.RelativeTimeFormat(locale, { numeric: "auto" })
+    .format(Math.round(elapsed / ms), unit);
+}
+
+if ("customElements" in globalThis) {
+  /**
+   * `<relative-time datetime="...">3 days ago</relative-time>`
+   *
+   * Keeps its text up to date, more often the closer the date is.
+   */
+  class RelativeTimeElement extends HTMLElement {
+    static observedAttributes = ["datetime"];
+
+    #timeout?: number;
+
+    connectedCallback() {
+      this.#update();
+    }
+
+    disconnectedCallback() {
+      clearTimeout(this.#timeout);
+    }
+
+    attributeChangedCallback() {
+      if (this.isConnected) {
+        this.#update();
+      }
+    }
+
+    #update() {
+      clearTimeout(this.#timeout);
+
+      const date = new Date(this.getAttribute("datetime") ?? "");
+      if (isNaN(date.getTime())) {
+        return;
+      }
+
+      const now = new Date();
+      this.textContent = formatRelativeTime(date, now);
+      this.title = date.toLocaleString(locale, {
+        dateStyle: "long",
+        timeStyle: "short",
+      });
+
+      // Timers can't be longer than ~24 days, and daily is often enough anyway
+      const { ms } = pickUnit(date.getTime() - now.getTime());
+      this.#timeout = setTimeout(() => this.#update(), Math.min(ms, day));
+    }
+  }
+
+  customElements.define("relative-time", RelativeTimeElement);
+}